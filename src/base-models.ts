@@ -0,0 +1,41 @@
+/**
+ * Whether resources trained on one base model work with another:
+ * - `compatible`: same family, e.g. SD 1.4 and SD 1.5
+ * - `partial`: same architecture but a different family, e.g. a Pony LoRA on an
+ *   SDXL checkpoint; it loads, but results are often poor
+ * - `incompatible`: different architectures; the resource will not load
+ * - `unknown`: a base model is missing or Civitai calls it `Other`
+ */
+export type Compatibility = 'compatible' | 'partial' | 'incompatible' | 'unknown';
+
+// Civitai `baseModel` values by family, first match wins. Anything not listed is its own family.
+const FAMILIES: Array<[family: string, architecture: string, pattern: RegExp]> = [
+  ['SD 1.x', 'SD 1', /^SD 1\.\d/],
+  ['SD 2.x', 'SD 2', /^SD 2\.\d/],
+  ['Pony', 'SDXL', /^Pony/],
+  ['Illustrious', 'SDXL', /^(Illustrious|NoobAI)/],
+  ['SDXL', 'SDXL', /^SDXL/],
+  ['SD 3.5 Medium', 'SD 3.5 Medium', /^SD 3\.5 Medium/],
+  ['SD 3.5 Large', 'SD 3.5 Large', /^SD 3\.5/],
+  ['SD 3', 'SD 3', /^SD 3$/],
+  ['Flux.1', 'Flux.1', /^Flux\.1/],
+];
+
+export interface BaseModelFamily {
+  family: string;
+  architecture: string;
+}
+
+export function baseModelFamily(baseModel: string | undefined): BaseModelFamily | undefined {
+  if (!baseModel || baseModel === 'Other') return undefined;
+  const match = FAMILIES.find(([, , pattern]) => pattern.test(baseModel));
+  return match ? { family: match[0], architecture: match[1] } : { family: baseModel, architecture: baseModel };
+}
+
+export function baseModelCompatibility(a: string | undefined, b: string | undefined): Compatibility {
+  const first = baseModelFamily(a);
+  const second = baseModelFamily(b);
+  if (!first || !second) return 'unknown';
+  if (first.family === second.family) return 'compatible';
+  return first.architecture === second.architecture ? 'partial' : 'incompatible';
+}
@@ -0,0 +1,230 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface CacheEntry {
+  /** Raw JSON body as returned by the API, before schema parsing */
+  body: unknown;
+  storedAt: number;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Storage backend for cached API responses. Keys are request URLs without credentials,
+ * tagged with a hash of the API key the response was fetched with.
+ */
+export interface CacheStore {
+  readonly kind: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  keys(): Promise<string[]>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    // Re-insert so Map iteration order doubles as least-recently-written order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async keys() {
+    return [...this.entries.keys()];
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Stores one JSON file per URL so the cache survives server restarts.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly kind = 'disk';
+
+  constructor(private directory: string) {}
+
+  private pathFor(key: string) {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string) {
+    try {
+      const stored = JSON.parse(await readFile(this.pathFor(key), 'utf8'));
+      return stored.key === key ? (stored.entry as CacheEntry) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(key), JSON.stringify({ key, entry }));
+  }
+
+  async keys() {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const keys: string[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        keys.push(JSON.parse(await readFile(join(this.directory, file), 'utf8')).key);
+      } catch {
+        // Ignore partially written or foreign files
+      }
+    }
+    return keys;
+  }
+
+  async delete(key: string) {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear() {
+    for (const key of await this.keys()) {
+      await this.delete(key);
+    }
+  }
+}
+
+/** TTL in milliseconds for each endpoint; the first matching pattern wins */
+export const DEFAULT_CACHE_TTLS: Array<[RegExp, number]> = [
+  [/\/tags$/, 24 * 60 * 60 * 1000],
+  [/\/creators$/, 6 * 60 * 60 * 1000],
+  [/\/model-versions\//, 60 * 60 * 1000],
+  [/\/models\/\d+$/, 60 * 60 * 1000],
+  [/\/models$/, 10 * 60 * 1000],
+  [/\/images$/, 2 * 60 * 1000],
+];
+
+const FALLBACK_TTL = 5 * 60 * 1000;
+
+export interface CacheStats {
+  store: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  revalidated: number;
+}
+
+/**
+ * TTL policy and hit accounting on top of a CacheStore.
+ */
+export class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+  private revalidated = 0;
+
+  constructor(
+    private store: CacheStore = new MemoryCacheStore(),
+    private ttls: Array<[RegExp, number]> = DEFAULT_CACHE_TTLS
+  ) {}
+
+  /**
+   * Cache key for a request URL, with any credentials stripped. Responses fetched
+   * with an API key are filed under a hash of it: Civitai answers differently per
+   * account, so one caller's responses must never be served to another.
+   */
+  keyFor(url: string, apiKey?: string): string {
+    const parsed = new URL(url);
+    parsed.searchParams.delete('token');
+    parsed.searchParams.sort();
+    if (apiKey) {
+      parsed.hash = `key=${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+    }
+    return parsed.toString();
+  }
+
+  ttlFor(url: string): number {
+    const { pathname } = new URL(url);
+    const match = this.ttls.find(([pattern]) => pattern.test(pathname));
+    return match ? match[1] : FALLBACK_TTL;
+  }
+
+  async lookup(url: string, apiKey?: string): Promise<{ entry?: CacheEntry; fresh: boolean }> {
+    const entry = await this.store.get(this.keyFor(url, apiKey));
+    const fresh = entry !== undefined && entry.expiresAt > Date.now();
+    if (fresh) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return { entry, fresh };
+  }
+
+  async save(
+    url: string,
+    body: unknown,
+    validators: { etag?: string; lastModified?: string } = {},
+    apiKey?: string
+  ) {
+    const now = Date.now();
+    await this.store.set(this.keyFor(url, apiKey), {
+      body,
+      storedAt: now,
+      expiresAt: now + this.ttlFor(url),
+      ...validators,
+    });
+  }
+
+  /** Extends a stale entry after the server answered 304 Not Modified */
+  async refresh(url: string, entry: CacheEntry, apiKey?: string) {
+    this.revalidated++;
+    const now = Date.now();
+    await this.store.set(this.keyFor(url, apiKey), { ...entry, storedAt: now, expiresAt: now + this.ttlFor(url) });
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      store: this.store.kind,
+      entries: (await this.store.keys()).length,
+      hits: this.hits,
+      misses: this.misses,
+      revalidated: this.revalidated,
+    };
+  }
+
+  /**
+   * Removes cached responses. With an endpoint (e.g. `/models/`) only URLs whose
+   * path contains it are purged. Returns the number of entries removed.
+   */
+  async clear(endpoint?: string): Promise<number> {
+    const keys = await this.store.keys();
+    if (!endpoint) {
+      await this.store.clear();
+      return keys.length;
+    }
+
+    const doomed = keys.filter(key => new URL(key).pathname.includes(endpoint));
+    for (const key of doomed) {
+      await this.store.delete(key);
+    }
+    return doomed.length;
+  }
+}
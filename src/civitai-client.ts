@@ -1,10 +1,13 @@
-import fetch from 'node-fetch';
+import fetch, { Response } from 'node-fetch';
 import {
   ModelsResponse,
   ImagesResponse,
   CreatorsResponse,
   TagsResponse,
   Model,
+  Image,
+  Creator,
+  Tag,
   ModelVersionResponse,
   ModelsResponseSchema,
   ImagesResponseSchema,
@@ -19,10 +22,45 @@ import {
   NSFWLevel,
   CommercialUse
 } from './types.js';
+import { CacheStats, ResponseCache } from './cache.js';
+import {
+  ContentPolicy,
+  DEFAULT_CONTENT_POLICY,
+  filterImages,
+  filterModelImages,
+  filterModels,
+  filterVersionImages,
+  imagesNsfwParam,
+  modelWithheldReasons,
+  modelsNsfwParam,
+} from './content-policy.js';
+import { PageParams, iteratePages, withPage } from './pagination.js';
+import { ZodTypeAny } from 'zod';
+import {
+  ApiError,
+  ContentPolicyError,
+  InvalidArgumentsError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  errorForStatus,
+} from './errors.js';
+import { SchemaDriftLog, SchemaHealth, SchemaMode, parseWithDrift } from './schema-drift.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  RETRYABLE_STATUSES,
+  RetryPolicy,
+  TokenBucket,
+  backoffDelay,
+  parseRetryAfter,
+  sleep,
+} from './rate-limit.js';
+import { registerSecret } from './secrets.js';
 
 export interface ModelsParams {
   limit?: number;
   page?: number;
+  cursor?: string | number;
   query?: string;
   tag?: string;
   username?: string;
@@ -43,8 +81,10 @@ export interface ModelsParams {
 }
 
 export interface ImagesParams {
+  imageId?: number;
   limit?: number;
   page?: number;
+  cursor?: string | number;
   postId?: number;
   modelId?: number;
   modelVersionId?: number;
@@ -66,23 +106,74 @@ export interface TagsParams {
   query?: string;
 }
 
+export interface CivitaiClientOptions {
+  /** Root of the REST API, e.g. a local fixture server in tests */
+  baseUrl?: string;
+  /** Response cache; requests always go to the network when omitted */
+  cache?: ResponseCache;
+  /** Overrides for retry/backoff on 429, 5xx and network errors */
+  retry?: Partial<RetryPolicy>;
+  /** How long each attempt may wait for response headers, in milliseconds (default 30s) */
+  timeoutMs?: number;
+  /** Client-side request rate cap shared by all calls, a bucket shared with other clients, or false to disable */
+  rateLimit?: { requestsPerSecond: number; burst?: number } | TokenBucket | false;
+  /** How to handle responses that don't match the schemas (default `lenient`) */
+  schemaMode?: SchemaMode;
+  /** Where drift events are recorded; a new stderr-logging log when omitted */
+  driftLog?: SchemaDriftLog;
+  /** Which models and images are returned (default: DEFAULT_CONTENT_POLICY, safe for work) */
+  contentPolicy?: ContentPolicy;
+}
+
+export const DEFAULT_BASE_URL = 'https://civitai.com/api/v1';
+
+export const DEFAULT_RATE_LIMIT = { requestsPerSecond: 5, burst: 10 };
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+// AutoV1 and CRC32 (8 hex digits), AutoV2 (10), SHA256 and BLAKE3 (64)
+const FILE_HASH = /^(?:[0-9a-f]{8}|[0-9a-f]{10}|[0-9a-f]{64})$/i;
+
+/** Whether `hash` has the form of a file hash Civitai can look a model version up by */
+export function isFileHash(hash: string): boolean {
+  return FILE_HASH.test(hash);
+}
+
 export class CivitaiClient {
-  private baseUrl = 'https://civitai.com/api/v1';
+  private baseUrl: string;
   private apiKey?: string;
+  private releaseApiKey: () => void;
+  private cache?: ResponseCache;
+  private retry: RetryPolicy;
+  private timeoutMs: number;
+  private rateLimiter?: TokenBucket;
+  private schemaMode: SchemaMode;
+  private driftLog: SchemaDriftLog;
+  private contentPolicy: ContentPolicy;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, options: CivitaiClientOptions = {}) {
     this.apiKey = apiKey;
+    this.releaseApiKey = registerSecret(apiKey);
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.cache = options.cache;
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.schemaMode = options.schemaMode ?? 'lenient';
+    this.driftLog = options.driftLog ?? new SchemaDriftLog();
+    this.contentPolicy = options.contentPolicy ?? DEFAULT_CONTENT_POLICY;
+
+    const rateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+    if (rateLimit instanceof TokenBucket) {
+      this.rateLimiter = rateLimit;
+    } else if (rateLimit) {
+      this.rateLimiter = new TokenBucket(rateLimit.requestsPerSecond, rateLimit.burst);
+    }
   }
 
+  // The API key never goes into URLs: makeRequest sends it as a bearer token
   private buildUrl(endpoint: string, params: Record<string, any> = {}): string {
     const url = new URL(`${this.baseUrl}${endpoint}`);
-    
-    // Add API key if available
-    if (this.apiKey) {
-      url.searchParams.set('token', this.apiKey);
-    }
 
-    // Add other parameters
     Object.entries(params).forEach(([key, value]) => {
       if (value !== undefined && value !== null && value !== '') {
         if (Array.isArray(value)) {
@@ -97,48 +188,168 @@ export class CivitaiClient {
   }
 
   private async makeRequest<T>(url: string, schema: any): Promise<T> {
+    const endpoint = this.endpointOf(url);
+
+    const cached = this.cache ? await this.cache.lookup(url, this.apiKey) : undefined;
+    if (cached?.fresh) {
+      return this.parseResponse<T>(endpoint, schema, cached.entry!.body);
+    }
+
+    // Revalidate stale entries when the server gave us validators
+    const stale = cached?.entry;
+    const response = await this.fetchWithRetry(url, {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      ...(stale?.etag && { 'If-None-Match': stale.etag }),
+      ...(stale?.lastModified && { 'If-Modified-Since': stale.lastModified }),
+    });
+
+    if (response.status === 304 && stale) {
+      await this.cache!.refresh(url, stale, this.apiKey);
+      return this.parseResponse<T>(endpoint, schema, stale.body);
+    }
+
+    let data: unknown;
     try {
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+      data = await response.json();
+    } catch {
+      data = undefined;
+    }
+
+    if (!response.ok) {
+      const reason = (data as { error?: unknown } | undefined)?.error;
+      throw errorForStatus(response.status, endpoint, typeof reason === 'string' ? reason : response.statusText);
+    }
+    if (data === undefined) {
+      throw new ApiError(response.status, `Civitai returned invalid JSON for ${endpoint}`, { endpoint });
+    }
+
+    const parsed = this.parseResponse<T>(endpoint, schema, data);
+    await this.cache?.save(url, data, {
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+    }, this.apiKey);
+    return parsed;
+  }
+
+  private parseResponse<T>(endpoint: string, schema: ZodTypeAny, data: unknown): T {
+    return parseWithDrift<T>(schema, data, endpoint, this.schemaMode, this.driftLog);
+  }
+
+  /** Path relative to the API root, safe to show to callers (no query string or token) */
+  private endpointOf(url: string): string {
+    const { pathname } = new URL(url);
+    const basePath = new URL(this.baseUrl).pathname.replace(/\/+$/, '');
+    return pathname.startsWith(basePath) ? pathname.slice(basePath.length) || '/' : pathname;
+  }
+
+  /**
+   * Fetches a URL through the rate limiter, retrying 429/5xx responses and network
+   * errors with exponential backoff. Retry-After is honored when present. The timeout
+   * only covers the wait for response headers: reading a large body may take longer.
+   */
+  private async fetchWithRetry(url: string, headers: Record<string, string>): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter?.take();
+
+      let response: Response;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+      try {
+        response = await fetch(url, { headers, signal: controller.signal });
+      } catch (error) {
+        if (attempt >= this.retry.maxRetries) {
+          const timedOut = error instanceof Error && error.name === 'AbortError';
+          throw new NetworkError(timedOut
+            ? `request timed out after ${this.timeoutMs}ms`
+            : error instanceof Error ? error.message : String(error));
         }
-      });
+        await sleep(backoffDelay(attempt, this.retry));
+        continue;
+      } finally {
+        clearTimeout(timer);
+      }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        return response;
       }
 
-      const data = await response.json();
-      return schema.parse(data);
-    } catch (error) {
-      throw new Error(`API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      const waitMs = retryAfterMs ?? backoffDelay(attempt, this.retry);
+      if (attempt >= this.retry.maxRetries || waitMs > this.retry.maxRetryAfterMs) {
+        if (response.status === 429) {
+          throw new RateLimitedError(waitMs);
+        }
+        return response;
+      }
+
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      await sleep(waitMs);
     }
   }
 
+  // Every model and image passes the content policy twice: as the request's `nsfw`
+  // filter, and again on the way out, since the API doesn't always honor the filter.
   async getModels(params: ModelsParams = {}): Promise<ModelsResponse> {
-    const url = this.buildUrl('/models', params);
-    return this.makeRequest<ModelsResponse>(url, ModelsResponseSchema);
+    const url = this.buildUrl('/models', { ...params, nsfw: modelsNsfwParam(this.contentPolicy, params.nsfw) });
+    const response = await this.makeRequest<ModelsResponse>(url, ModelsResponseSchema);
+    const { items, withheld } = filterModels(this.contentPolicy, response.items);
+    return { ...response, items, metadata: { ...response.metadata, withheld } };
   }
 
   async getModel(modelId: number): Promise<Model> {
     const url = this.buildUrl(`/models/${modelId}`);
-    return this.makeRequest<Model>(url, ModelSchema);
+    const model = await this.makeRequest<Model>(url, ModelSchema);
+    const reasons = modelWithheldReasons(this.contentPolicy, model);
+    if (reasons.length > 0) {
+      throw new ContentPolicyError(`Model ${modelId} is withheld by the content policy: ${reasons.join('; ')}`, { modelId, reasons });
+    }
+    return filterModelImages(this.contentPolicy, model);
   }
 
   async getModelVersion(modelVersionId: number): Promise<ModelVersionResponse> {
     const url = this.buildUrl(`/model-versions/${modelVersionId}`);
-    return this.makeRequest<ModelVersionResponse>(url, ModelVersionResponseSchema);
+    return this.checkVersion(await this.makeRequest<ModelVersionResponse>(url, ModelVersionResponseSchema));
   }
 
   async getModelVersionByHash(hash: string): Promise<ModelVersionResponse> {
-    const url = this.buildUrl(`/model-versions/by-hash/${hash}`);
-    return this.makeRequest<ModelVersionResponse>(url, ModelVersionResponseSchema);
+    if (!isFileHash(hash)) {
+      throw new InvalidArgumentsError('Expected an AutoV1, AutoV2 or SHA256 file hash in hexadecimal', { hash });
+    }
+    const url = this.buildUrl(`/model-versions/by-hash/${encodeURIComponent(hash)}`);
+    return this.checkVersion(await this.makeRequest<ModelVersionResponse>(url, ModelVersionResponseSchema));
+  }
+
+  private checkVersion(version: ModelVersionResponse): ModelVersionResponse {
+    const reasons = modelWithheldReasons(this.contentPolicy, version.model);
+    if (reasons.length > 0) {
+      throw new ContentPolicyError(
+        `Model version ${version.id} is withheld by the content policy: ${reasons.join('; ')}`,
+        { modelVersionId: version.id, modelId: version.modelId, reasons }
+      );
+    }
+    return filterVersionImages(this.contentPolicy, version);
   }
 
   async getImages(params: ImagesParams = {}): Promise<ImagesResponse> {
-    const url = this.buildUrl('/images', params);
-    return this.makeRequest<ImagesResponse>(url, ImagesResponseSchema);
+    const url = this.buildUrl('/images', { ...params, nsfw: imagesNsfwParam(this.contentPolicy, params.nsfw) });
+    const response = await this.makeRequest<ImagesResponse>(url, ImagesResponseSchema);
+    const { items, withheld } = filterImages(this.contentPolicy, response.items);
+    return { ...response, items, metadata: { ...response.metadata, withheld } };
+  }
+
+  /** A single image by id, via the images feed's `imageId` filter */
+  async getImage(imageId: number): Promise<Image> {
+    const response = await this.getImages({ imageId, limit: 1 });
+    const image = response.items.find(item => item.id === imageId);
+    if (!image && response.metadata.withheld) {
+      throw new ContentPolicyError(`Image ${imageId} is withheld by the content policy`, { imageId });
+    }
+    if (!image) {
+      throw new NotFoundError(`No image with id ${imageId}`, { endpoint: '/images', imageId });
+    }
+    return image;
   }
 
   async getCreators(params: CreatorsParams = {}): Promise<CreatorsResponse> {
@@ -151,9 +362,89 @@ export class CivitaiClient {
     return this.makeRequest<TagsResponse>(url, TagsResponseSchema);
   }
 
+  // Auto-pagination: follow nextCursor/nextPage until the list ends.
+  // Stop early by breaking out of the `for await` loop.
+  iterateModels(params: ModelsParams = {}): AsyncGenerator<Model> {
+    return iteratePages(page => this.getModels(withPage(params, page)), pageOf(params));
+  }
+
+  iterateImages(params: ImagesParams = {}): AsyncGenerator<Image> {
+    return iteratePages(page => this.getImages(withPage(params, page)), pageOf(params));
+  }
+
+  iterateCreators(params: CreatorsParams = {}): AsyncGenerator<Creator> {
+    return iteratePages(page => this.getCreators(withPage(params, page)), pageOf(params));
+  }
+
+  iterateTags(params: TagsParams = {}): AsyncGenerator<Tag> {
+    return iteratePages(page => this.getTags(withPage(params, page)), pageOf(params));
+  }
+
+  // Cache management
+  async getCacheStats(): Promise<CacheStats | null> {
+    return this.cache ? this.cache.stats() : null;
+  }
+
+  async clearCache(endpoint?: string): Promise<number> {
+    return this.cache ? this.cache.clear(endpoint) : 0;
+  }
+
+  /** Schema drift seen by this client since it was created */
+  getSchemaHealth(): SchemaHealth {
+    return this.driftLog.summary(this.schemaMode);
+  }
+
+  /** Call once the client is no longer used: its API key stops being masked in errors and logs */
+  close() {
+    this.releaseApiKey();
+  }
+
   // Helper methods for downloading
-  getDownloadUrl(modelVersionId: number): string {
-    return this.buildUrl(`/download/models/${modelVersionId}`);
+
+  /**
+   * Download link for a version's primary file. It carries no credentials unless
+   * `withToken` is set, which embeds the API key in the URL: anyone holding such a
+   * link can download as this key's owner.
+   */
+  getDownloadUrl(modelVersionId: number, { withToken = false } = {}): string {
+    const url = new URL(this.buildUrl(`/download/models/${modelVersionId}`));
+    if (withToken && this.apiKey) {
+      url.searchParams.set('token', this.apiKey);
+    }
+    return url.toString();
+  }
+
+  /** Web page of a model on the site the configured API belongs to */
+  getModelPageUrl(modelId: number): string {
+    return new URL(`/models/${modelId}`, this.baseUrl).toString();
+  }
+
+  /**
+   * Opens the file download for a model version, resuming at byte `offset` when given.
+   * The API key travels in the Authorization header, never in the URL, and redirects
+   * to the storage host are followed. A 416 (offset past the end of the file) is
+   * returned rather than thrown so callers can restart from scratch.
+   */
+  async openDownload(
+    modelVersionId: number,
+    options: { offset?: number; params?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const url = new URL(`${this.baseUrl}/download/models/${modelVersionId}`);
+    for (const [key, value] of Object.entries(options.params ?? {})) {
+      url.searchParams.set(key, value);
+    }
+
+    const response = await this.fetchWithRetry(url.toString(), {
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      ...(options.offset && { 'Range': `bytes=${options.offset}-` }),
+    });
+
+    if (!response.ok && response.status !== 416) {
+      const body = await response.json().catch(() => undefined) as { error?: unknown } | undefined;
+      const reason = typeof body?.error === 'string' ? body.error : response.statusText;
+      throw errorForStatus(response.status, this.endpointOf(url.toString()), reason);
+    }
+    return response;
   }
 
   // Search helper methods
@@ -174,29 +465,33 @@ export class CivitaiClient {
   }
 
   // Utility methods
-  async getPopularModels(period: string = 'Week', limit: number = 20): Promise<ModelsResponse> {
+  async getPopularModels(period: string = 'Week', limit: number = 20, options: Partial<ModelsParams> = {}): Promise<ModelsResponse> {
     return this.getModels({
+      ...options,
       sort: 'Most Downloaded',
       period,
       limit,
-      nsfw: false
     });
   }
 
-  async getLatestModels(limit: number = 20): Promise<ModelsResponse> {
+  async getLatestModels(limit: number = 20, options: Partial<ModelsParams> = {}): Promise<ModelsResponse> {
     return this.getModels({
+      ...options,
       sort: 'Newest',
       limit,
-      nsfw: false
     });
   }
 
-  async getTopRatedModels(period: string = 'AllTime', limit: number = 20): Promise<ModelsResponse> {
+  async getTopRatedModels(period: string = 'AllTime', limit: number = 20, options: Partial<ModelsParams> = {}): Promise<ModelsResponse> {
     return this.getModels({
+      ...options,
       sort: 'Highest Rated',
       period,
       limit,
-      nsfw: false
     });
   }
 }
+
+function pageOf(params: PageParams): PageParams {
+  return { page: params.page, cursor: params.cursor };
+}
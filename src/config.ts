@@ -0,0 +1,314 @@
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { FileCacheStore, MemoryCacheStore, ResponseCache } from './cache.js';
+import { CivitaiClientOptions, DEFAULT_BASE_URL, DEFAULT_RATE_LIMIT, DEFAULT_TIMEOUT_MS } from './civitai-client.js';
+import { DEFAULT_CONTENT_POLICY } from './content-policy.js';
+import { DEFAULT_STALL_TIMEOUT_MS } from './downloader.js';
+import { ConfigError } from './errors.js';
+import { DEFAULT_SUMMARY_FORMAT } from './formatters.js';
+import { DEFAULT_SAFETY_POLICY } from './safety-policy.js';
+import { readSecretFile, registerSecret } from './secrets.js';
+import type { ServerOptions } from './server.js';
+import { BrowsingLevel } from './types.js';
+
+// Environment variables and CLI flags arrive as strings; these accept both forms
+
+const number = (schema: z.ZodNumber) =>
+  z.preprocess(value => (typeof value === 'string' ? Number(value) : value), schema);
+
+const boolean = z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+const list = z.preprocess(
+  value => (typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value),
+  z.array(z.string())
+);
+
+/**
+ * Every setting the server reads at startup. Unknown keys are rejected so
+ * typos in a config file fail loudly instead of being ignored.
+ */
+export const ConfigSchema = z.object({
+  /** Civitai API key; most endpoints work without one */
+  apiKey: z.string().optional(),
+  /** File holding the API key instead, e.g. a Docker secret or systemd credential */
+  apiKeyFile: z.string().optional(),
+  /** Let `get_download_url` embed the API key in links when a caller asks for it */
+  allowTokenizedDownloadUrls: boolean.default(false),
+  baseUrl: z.string().url().default(DEFAULT_BASE_URL),
+  /** Per-attempt limit on the wait for an API response's headers */
+  timeoutMs: number(z.number().int().positive()).default(DEFAULT_TIMEOUT_MS),
+  /** How long a download may receive no data before it is abandoned */
+  downloadStallTimeoutMs: number(z.number().int().positive()).default(DEFAULT_STALL_TIMEOUT_MS),
+  rateLimit: z.object({
+    requestsPerSecond: number(z.number().positive()).default(DEFAULT_RATE_LIMIT.requestsPerSecond),
+    burst: number(z.number().int().positive()).default(DEFAULT_RATE_LIMIT.burst),
+  }).strict().default({}),
+  schemaMode: z.enum(['lenient', 'strict']).default('lenient'),
+  /** Page size for list tools called without `limit` or `maxItems`; the API's default when unset */
+  defaultLimit: number(z.number().int().min(1).max(200)).optional(),
+  /** How model summaries in search results are trimmed */
+  formatting: z.object({
+    descriptionLength: number(z.number().int().min(0)).default(DEFAULT_SUMMARY_FORMAT.descriptionLength),
+    maxTags: number(z.number().int().min(0)).default(DEFAULT_SUMMARY_FORMAT.maxTags),
+  }).strict().default({}),
+  /** Tools advertised to clients: the `enabled` ones (all when unset) minus the `disabled` ones */
+  tools: z.object({
+    enabled: list.optional(),
+    disabled: list.default([]),
+  }).strict().default({}),
+  cache: z.object({
+    store: z.enum(['memory', 'disk', 'off']).default('memory'),
+    dir: z.string().default(join(homedir(), '.cache', 'civitai-mcp-server')),
+  }).strict().default({}),
+  contentPolicy: z.object({
+    maxBrowsingLevel: BrowsingLevel.default(DEFAULT_CONTENT_POLICY.maxBrowsingLevel),
+    excludePoi: boolean.default(DEFAULT_CONTENT_POLICY.excludePoi),
+  }).strict().default({}),
+  safetyPolicy: z.object({
+    requireSafeTensors: boolean.default(DEFAULT_SAFETY_POLICY.requireSafeTensors),
+    blockPickle: boolean.default(DEFAULT_SAFETY_POLICY.blockPickle),
+    requireScans: boolean.default(DEFAULT_SAFETY_POLICY.requireScans),
+    maxScanAgeDays: number(z.number().min(0)).optional(),
+  }).strict().default({}),
+  library: z.object({
+    modelsDir: z.string().optional(),
+    /** The only folder `inspect_local_image` may read images from */
+    imagesDir: z.string().optional(),
+    hashCacheFile: z.string().optional(),
+  }).strict().default({}),
+  transport: z.enum(['stdio', 'http']).default('stdio'),
+  http: z.object({
+    port: number(z.number().int().min(0).max(65535)).default(3000),
+    host: z.string().default('127.0.0.1'),
+    authTokens: list.default([]),
+    callerKeys: boolean.default(false),
+    corsOrigins: list.default([]),
+  }).strict().default({}),
+}).strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+/** Environment variables and the config paths they set */
+const ENV_VARS: Record<string, string> = {
+  CIVITAI_API_KEY: 'apiKey',
+  CIVITAI_API_KEY_FILE: 'apiKeyFile',
+  CIVITAI_ALLOW_TOKENIZED_URLS: 'allowTokenizedDownloadUrls',
+  CIVITAI_BASE_URL: 'baseUrl',
+  CIVITAI_TIMEOUT_MS: 'timeoutMs',
+  CIVITAI_DOWNLOAD_STALL_TIMEOUT_MS: 'downloadStallTimeoutMs',
+  CIVITAI_MAX_RPS: 'rateLimit.requestsPerSecond',
+  CIVITAI_SCHEMA_MODE: 'schemaMode',
+  CIVITAI_DEFAULT_LIMIT: 'defaultLimit',
+  CIVITAI_DESCRIPTION_LENGTH: 'formatting.descriptionLength',
+  CIVITAI_MAX_TAGS: 'formatting.maxTags',
+  CIVITAI_ENABLED_TOOLS: 'tools.enabled',
+  CIVITAI_DISABLED_TOOLS: 'tools.disabled',
+  CIVITAI_CACHE: 'cache.store',
+  CIVITAI_CACHE_DIR: 'cache.dir',
+  CIVITAI_MAX_BROWSING_LEVEL: 'contentPolicy.maxBrowsingLevel',
+  CIVITAI_EXCLUDE_POI: 'contentPolicy.excludePoi',
+  CIVITAI_REQUIRE_SAFETENSORS: 'safetyPolicy.requireSafeTensors',
+  CIVITAI_BLOCK_PICKLE: 'safetyPolicy.blockPickle',
+  CIVITAI_REQUIRE_SCANS: 'safetyPolicy.requireScans',
+  CIVITAI_MAX_SCAN_AGE_DAYS: 'safetyPolicy.maxScanAgeDays',
+  CIVITAI_MODELS_DIR: 'library.modelsDir',
+  CIVITAI_IMAGES_DIR: 'library.imagesDir',
+  CIVITAI_HASH_CACHE: 'library.hashCacheFile',
+  CIVITAI_MCP_TRANSPORT: 'transport',
+  CIVITAI_MCP_PORT: 'http.port',
+  CIVITAI_MCP_HOST: 'http.host',
+  CIVITAI_MCP_AUTH_TOKENS: 'http.authTokens',
+  CIVITAI_MCP_CALLER_KEYS: 'http.callerKeys',
+  CIVITAI_MCP_CORS_ORIGINS: 'http.corsOrigins',
+};
+
+/** CLI flags (`--flag value` or `--flag=value`) and the config paths they set */
+const FLAGS: Record<string, string> = {
+  '--api-key-file': 'apiKeyFile',
+  '--base-url': 'baseUrl',
+  '--timeout-ms': 'timeoutMs',
+  '--max-rps': 'rateLimit.requestsPerSecond',
+  '--default-limit': 'defaultLimit',
+  '--enable-tools': 'tools.enabled',
+  '--disable-tools': 'tools.disabled',
+  '--cache': 'cache.store',
+  '--cache-dir': 'cache.dir',
+  '--max-browsing-level': 'contentPolicy.maxBrowsingLevel',
+  '--models-dir': 'library.modelsDir',
+  '--images-dir': 'library.imagesDir',
+  '--transport': 'transport',
+  '--port': 'http.port',
+  '--host': 'http.host',
+};
+
+/** Flags that take no value */
+const SWITCHES: Record<string, [path: string, value: string] | undefined> = {
+  '--http': ['transport', 'http'],
+  '--print-config': undefined,
+};
+
+export interface LoadConfigOptions {
+  /** CLI arguments, without the node and script paths */
+  args?: string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Builds the effective configuration: defaults, then the config file (`--config`
+ * or CIVITAI_CONFIG; `.yaml`/`.yml` or JSON), then environment variables, then
+ * CLI flags. The API key is read from `apiKeyFile` when one is given; a key or
+ * key file from a higher layer replaces both from the lower ones. Throws
+ * INVALID_CONFIG listing every problem found.
+ */
+export function loadConfig({ args = [], env = process.env }: LoadConfigOptions = {}): Config {
+  const { configFile, overrides } = parseArgs(args);
+  const file = configFile ?? (env.CIVITAI_CONFIG || undefined);
+
+  const raw: Record<string, unknown> = {};
+  applyLayer(raw, file ? Object.entries(readConfigFile(file)) : []);
+  applyLayer(raw, Object.entries(ENV_VARS).filter(([name]) => env[name]).map(([name, path]) => [path, env[name]]));
+  applyLayer(raw, overrides);
+
+  const parsed = ConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+    throw new ConfigError(
+      `Invalid configuration: ${issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ')}`,
+      { ...(file && { file }), issues }
+    );
+  }
+
+  const config = parsed.data;
+  if (config.apiKeyFile) {
+    config.apiKey = readSecretFile(config.apiKeyFile);
+  }
+  registerSecret(config.apiKey);
+  config.http.authTokens.forEach(registerSecret);
+  return config;
+}
+
+const REDACTED = '********';
+
+/** The configuration with secrets masked, for `--print-config` */
+export function redactConfig(config: Config): Config {
+  return {
+    ...config,
+    ...(config.apiKey && { apiKey: REDACTED }),
+    http: { ...config.http, authTokens: config.http.authTokens.map(() => REDACTED) },
+  };
+}
+
+export function clientOptionsFromConfig(config: Config): CivitaiClientOptions {
+  return {
+    baseUrl: config.baseUrl,
+    cache: createCache(config.cache),
+    timeoutMs: config.timeoutMs,
+    rateLimit: config.rateLimit,
+    schemaMode: config.schemaMode,
+    contentPolicy: config.contentPolicy,
+  };
+}
+
+export function serverOptionsFromConfig(config: Config): ServerOptions {
+  return {
+    modelsDir: config.library.modelsDir,
+    imagesDir: config.library.imagesDir,
+    hashCacheFile: config.library.hashCacheFile,
+    safetyPolicy: config.safetyPolicy,
+    allowTokenizedDownloadUrls: config.allowTokenizedDownloadUrls,
+    downloadStallTimeoutMs: config.downloadStallTimeoutMs,
+    formatting: config.formatting,
+    defaultLimit: config.defaultLimit,
+    tools: config.tools,
+  };
+}
+
+function createCache(cache: Config['cache']): ResponseCache | undefined {
+  switch (cache.store) {
+    case 'off':
+      return undefined;
+    case 'disk':
+      return new ResponseCache(new FileCacheStore(cache.dir));
+    default:
+      return new ResponseCache(new MemoryCacheStore());
+  }
+}
+
+function parseArgs(args: string[]): { configFile?: string; overrides: Array<[string, string]> } {
+  let configFile: string | undefined;
+  const overrides: Array<[string, string]> = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split(/=(.*)/s, 2);
+    if (flag in SWITCHES) {
+      const override = SWITCHES[flag];
+      if (override) overrides.push(override);
+      continue;
+    }
+    if (flag !== '--config' && !(flag in FLAGS)) {
+      throw new ConfigError(`Unknown option: ${flag}`, { option: flag });
+    }
+    const value = inline ?? args[++i];
+    if (value === undefined) {
+      throw new ConfigError(`Missing value for ${flag}`, { option: flag });
+    }
+    if (flag === '--config') {
+      configFile = value;
+    } else {
+      overrides.push([FLAGS[flag], value]);
+    }
+  }
+  return { configFile, overrides };
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    const text = readFileSync(file, 'utf8');
+    parsed = ['.yaml', '.yml'].includes(extname(file).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${file}: ${error instanceof Error ? error.message : error}`, { file });
+  }
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError(`Config file ${file} must contain an object`, { file });
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// Either one gives the API key; a layer that sets one replaces both from the layers below
+const KEY_SETTINGS = ['apiKey', 'apiKeyFile'];
+
+/** Applies one layer of settings (file, environment or flags) over the ones below it */
+function applyLayer(target: Record<string, unknown>, settings: Array<[path: string, value: unknown]>) {
+  const keySettings = settings.filter(([path]) => KEY_SETTINGS.includes(path));
+  if (keySettings.length > 1) {
+    throw new ConfigError('Set apiKey or apiKeyFile, not both', {});
+  }
+  if (keySettings.length > 0) {
+    KEY_SETTINGS.forEach(path => delete target[path]);
+  }
+  for (const [path, value] of settings) {
+    setPath(target, path, value);
+  }
+}
+
+/** Sets `a.b.c` on a nested object, creating the objects on the way */
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    const child = node[key];
+    if (typeof child !== 'object' || child === null || Array.isArray(child)) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
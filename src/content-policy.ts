@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { BrowsingLevel, Image, Model, ModelVersionResponse } from './types.js';
+
+export type BrowsingLevelName = z.infer<typeof BrowsingLevel>;
+
+/**
+ * Which content the server hands out. The client applies it to every request
+ * (the `nsfw` filters) and again to every returned model and image, since the
+ * API doesn't always honor those filters.
+ */
+export interface ContentPolicy {
+  /** Most explicit browsing level returned; higher models and images are withheld */
+  maxBrowsingLevel: BrowsingLevelName;
+  /** Withhold models of real people (Civitai's `poi` flag) */
+  excludePoi: boolean;
+}
+
+/** Safe for work: Civitai's PG and PG-13 levels, the same content `nsfw: false` selects */
+export const DEFAULT_CONTENT_POLICY: ContentPolicy = {
+  maxBrowsingLevel: 'PG13',
+  excludePoi: false,
+};
+
+const LEVELS = BrowsingLevel.options;
+
+// Older responses and the images `nsfw` filter use these names
+const NSFW_LEVEL_NAMES: Record<string, BrowsingLevelName> = { None: 'PG', Soft: 'PG13', Mature: 'R', X: 'X' };
+
+/** Rank of the most explicit level set in a bit-flag value (PG = 1 -> 0, XXX = 16 -> 4) */
+function rankOfFlags(flags: number): number {
+  return Math.min(Math.floor(Math.log2(flags)), LEVELS.length - 1);
+}
+
+function rank(level: BrowsingLevelName): number {
+  return LEVELS.indexOf(level);
+}
+
+/**
+ * An image's browsing level rank; images flagged NSFW without a level count as X,
+ * and level names this server doesn't know (kept by lenient parsing) as XXX
+ */
+export function imageLevel(image: Image): number {
+  if (typeof image.browsingLevel === 'number' && image.browsingLevel > 0) return rankOfFlags(image.browsingLevel);
+  if (typeof image.nsfwLevel === 'number' && image.nsfwLevel > 0) return rankOfFlags(image.nsfwLevel);
+  if (typeof image.nsfwLevel === 'string') {
+    return NSFW_LEVEL_NAMES[image.nsfwLevel] ? rank(NSFW_LEVEL_NAMES[image.nsfwLevel]) : rank('XXX');
+  }
+  return image.nsfw ? rank('X') : rank('PG');
+}
+
+/** A model's browsing level rank: the most explicit level in its content; NSFW models without one count as X */
+export function modelLevel(model: { nsfw: boolean; nsfwLevel?: number }): number {
+  if (typeof model.nsfwLevel === 'number' && model.nsfwLevel > 0) return rankOfFlags(model.nsfwLevel);
+  return model.nsfw ? rank('X') : rank('PG');
+}
+
+/** Why the policy withholds a model; empty when it doesn't */
+export function modelWithheldReasons(policy: ContentPolicy, model: { nsfw: boolean; nsfwLevel?: number; poi?: boolean }): string[] {
+  const reasons: string[] = [];
+  const level = modelLevel(model);
+  if (level > rank(policy.maxBrowsingLevel)) {
+    reasons.push(`rated ${LEVELS[level]}, above the ${policy.maxBrowsingLevel} limit`);
+  }
+  if (policy.excludePoi && model.poi) {
+    reasons.push('depicts a real person');
+  }
+  return reasons;
+}
+
+export function allowsImage(policy: ContentPolicy, image: Image): boolean {
+  return imageLevel(image) <= rank(policy.maxBrowsingLevel);
+}
+
+/**
+ * The `nsfw` filter for /models: `false` below R, otherwise what the caller asked for.
+ */
+export function modelsNsfwParam(policy: ContentPolicy, requested: boolean | undefined): boolean | undefined {
+  return rank(policy.maxBrowsingLevel) < rank('R') ? false : requested;
+}
+
+/**
+ * The `nsfw` level for /images: the caller's level (a name or a boolean), capped
+ * at the policy's. Unset only when the policy allows everything.
+ */
+export function imagesNsfwParam(policy: ContentPolicy, requested: boolean | string | undefined): boolean | string | undefined {
+  const max = rank(policy.maxBrowsingLevel);
+  const wanted = requested === undefined ? undefined
+    : typeof requested === 'boolean' ? rank(requested ? 'X' : 'PG')
+    : NSFW_LEVEL_NAMES[requested] ? rank(NSFW_LEVEL_NAMES[requested]) : undefined;
+  if (wanted === undefined && max === rank('XXX')) return requested;
+
+  // The images filter has no XXX name; X is its most explicit level
+  const level = Math.min(wanted ?? max, max, rank('X'));
+  return Object.keys(NSFW_LEVEL_NAMES).find(name => rank(NSFW_LEVEL_NAMES[name]) === level);
+}
+
+/** Drops the images above the policy's level, returning how many were dropped */
+export function filterImages(policy: ContentPolicy, images: Image[]): { items: Image[]; withheld: number } {
+  const items = images.filter(image => allowsImage(policy, image));
+  return { items, withheld: images.length - items.length };
+}
+
+/** Drops the models the policy withholds and, from the rest, their sample images above its level */
+export function filterModels(policy: ContentPolicy, models: Model[]): { items: Model[]; withheld: number } {
+  const items = models
+    .filter(model => modelWithheldReasons(policy, model).length === 0)
+    .map(model => filterModelImages(policy, model));
+  return { items, withheld: models.length - items.length };
+}
+
+/** Drops the sample images above the policy's level, counting them in `withheldImages` */
+export function filterModelImages(policy: ContentPolicy, model: Model): Model {
+  let withheldImages = 0;
+  const modelVersions = model.modelVersions.map(version => {
+    if (!version.images) return version;
+    const { items, withheld } = filterImages(policy, version.images);
+    withheldImages += withheld;
+    return { ...version, images: items };
+  });
+  return { ...model, modelVersions, withheldImages };
+}
+
+/** Drops the sample images above the policy's level, counting them in `withheldImages` */
+export function filterVersionImages(policy: ContentPolicy, version: ModelVersionResponse): ModelVersionResponse {
+  const { items, withheld } = filterImages(policy, version.images);
+  return { ...version, images: items, withheldImages: withheld };
+}
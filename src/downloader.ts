@@ -0,0 +1,247 @@
+import { createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, stat } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { CivitaiClient } from './civitai-client.js';
+import { FileExistsError, HashMismatchError, NetworkError, NotFoundError, SafetyPolicyError } from './errors.js';
+import { HashCache, hashFile } from './local-library.js';
+import { DEFAULT_SAFETY_POLICY, SafetyPolicy, assertFileSafe, primaryFile } from './safety-policy.js';
+import { ModelFile, ModelVersionResponse } from './types.js';
+
+/** Minimum time between progress reports, so large files don't flood the transport */
+const PROGRESS_INTERVAL_MS = 250;
+
+/** How long a download may go without receiving any data before it is abandoned */
+export const DEFAULT_STALL_TIMEOUT_MS = 60_000;
+
+export interface DownloadOptions {
+  /** Root of the local library; files land in a subfolder named after the model type */
+  modelsDir: string;
+  /** Which of the version's files to fetch; the primary file when omitted */
+  fileId?: number;
+  hashCache?: HashCache;
+  /** Files failing it are refused before anything is fetched (default: DEFAULT_SAFETY_POLICY) */
+  safetyPolicy?: SafetyPolicy;
+  /** Abandon the download when no data arrives for this long (default: DEFAULT_STALL_TIMEOUT_MS) */
+  stallTimeoutMs?: number;
+  onProgress?: (downloadedBytes: number, totalBytes?: number) => Promise<void> | void;
+}
+
+export interface DownloadResult {
+  modelVersionId: number;
+  modelName: string;
+  versionName: string;
+  type: string;
+  path: string;
+  bytes: number;
+  /** Bytes already on disk from an earlier, interrupted download */
+  resumedFrom: number;
+  /** The file was already in the library with the expected hash; nothing was fetched */
+  alreadyPresent: boolean;
+  sha256: string;
+  expectedSha256: string;
+  verified: boolean;
+}
+
+/**
+ * Extracts the file name from a Content-Disposition header, preferring the
+ * RFC 5987 `filename*` form. Directory parts are dropped.
+ */
+export function parseContentDisposition(header: string | null): string | undefined {
+  if (!header) return undefined;
+
+  const extended = header.match(/filename\*\s*=\s*(?:UTF-8|utf-8)?''([^;]+)/);
+  const plain = header.match(/filename\s*=\s*"([^"]+)"|filename\s*=\s*([^;]+)/);
+  let name: string | undefined;
+  try {
+    name = extended ? decodeURIComponent(extended[1].trim()) : plain ? (plain[1] ?? plain[2]).trim() : undefined;
+  } catch {
+    name = plain ? (plain[1] ?? plain[2]).trim() : undefined;
+  }
+  return name && safeFileName(name);
+}
+
+function safeFileName(name: string): string | undefined {
+  const base = basename(name.replace(/\\/g, '/'));
+  return base && base !== '.' && base !== '..' ? base : undefined;
+}
+
+function pickFile(version: ModelVersionResponse, fileId?: number): ModelFile | undefined {
+  if (fileId !== undefined) {
+    const file = version.files.find(f => f.id === fileId);
+    if (!file) {
+      throw new NotFoundError(`Model version ${version.id} has no file with id ${fileId}`, { fileId });
+    }
+    return file;
+  }
+  return primaryFile(version.files);
+}
+
+// Non-primary files are selected with the query string of their own download URL (type, format, ...)
+function selectorFor(file: ModelFile): Record<string, string> {
+  if (!file.downloadUrl || file.primary) return {};
+  try {
+    return Object.fromEntries(new URL(file.downloadUrl).searchParams);
+  } catch {
+    return {};
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function sizeOf(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Downloads a model version's file into `<modelsDir>/<type>/`, resuming from a
+ * previous partial download when one exists, and verifies the result against the
+ * SHA256 Civitai publishes. A file that fails verification is deleted; one that
+ * fails the safety policy or has no published SHA256 is never fetched. A different file already under the
+ * same name is left alone and the download fails with FILE_EXISTS.
+ */
+export async function downloadModelVersion(
+  client: CivitaiClient,
+  modelVersionId: number,
+  options: DownloadOptions
+): Promise<DownloadResult> {
+  const version = await client.getModelVersion(modelVersionId);
+  const file = pickFile(version, options.fileId);
+  assertFileSafe(version, file, options.safetyPolicy ?? DEFAULT_SAFETY_POLICY);
+  const expectedSha256 = file.hashes?.SHA256?.toUpperCase();
+  // Without a published hash there is nothing to verify the bytes against
+  if (!expectedSha256) {
+    throw new SafetyPolicyError(
+      file.name ?? `File ${file.id ?? 'without id'}`,
+      ['no SHA256 is published to verify the download against'],
+      { modelVersionId, fileId: file.id }
+    );
+  }
+  const hashCache = options.hashCache ?? new HashCache();
+
+  const directory = join(options.modelsDir, version.model.type);
+  await mkdir(directory, { recursive: true });
+
+  const result = {
+    modelVersionId,
+    modelName: version.model.name,
+    versionName: version.name,
+    type: version.model.type,
+    expectedSha256,
+  };
+
+  // Skip the download when the listed file is already in place and intact
+  const listedName = file.name && safeFileName(file.name);
+  if (listedName && await sizeOf(join(directory, listedName)) > 0) {
+    const path = join(directory, listedName);
+    const { sha256 } = await hashCache.hashesFor(path);
+    if (sha256 === expectedSha256) {
+      await hashCache.save();
+      return { ...result, path, bytes: await sizeOf(path), resumedFrom: 0, alreadyPresent: true, sha256, verified: true };
+    }
+  }
+
+  // The partial file is a dotfile so library scans ignore it
+  const partial = join(directory, `.${modelVersionId}${file.id ? `-${file.id}` : ''}.part`);
+  let offset = await sizeOf(partial);
+  let response = await client.openDownload(modelVersionId, { offset, params: selectorFor(file) });
+  if (response.status === 416) {
+    // The partial file is already as long as the remote file; fetch it again from the start
+    await response.arrayBuffer().catch(() => undefined);
+    offset = 0;
+    response = await client.openDownload(modelVersionId, { params: selectorFor(file) });
+  } else if (response.status !== 206) {
+    // The server ignored the Range header and is sending the whole file
+    offset = 0;
+  }
+
+  const length = Number(response.headers.get('content-length'));
+  const total = length > 0 ? offset + length : undefined;
+  let downloaded = offset;
+  let lastReport = 0;
+
+  // The request timeout ends with the headers; a body that stops arriving is caught here.
+  // Whatever was received stays in the partial file for the next attempt to resume from.
+  const body = response.body as Readable;
+  const stallTimeoutMs = options.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS;
+  let stallTimer: NodeJS.Timeout | undefined;
+  const watchForStall = () => {
+    clearTimeout(stallTimer);
+    stallTimer = setTimeout(
+      () => body.destroy(new NetworkError(`download stalled: no data received for ${stallTimeoutMs}ms`)),
+      stallTimeoutMs
+    );
+  };
+
+  watchForStall();
+  try {
+    await pipeline(
+      body,
+      async function* (source: AsyncIterable<Buffer | string>) {
+        for await (const chunk of source) {
+          watchForStall();
+          downloaded += Buffer.byteLength(chunk);
+          if (options.onProgress && Date.now() - lastReport >= PROGRESS_INTERVAL_MS) {
+            lastReport = Date.now();
+            await options.onProgress(downloaded, total);
+          }
+          yield chunk;
+        }
+      },
+      createWriteStream(partial, { flags: offset > 0 ? 'a' : 'w' })
+    );
+  } finally {
+    clearTimeout(stallTimer);
+  }
+  await options.onProgress?.(downloaded, total ?? downloaded);
+
+  const fileName = parseContentDisposition(response.headers.get('content-disposition'))
+    ?? listedName
+    ?? `model-${modelVersionId}.safetensors`;
+  const path = join(directory, fileName);
+
+  // Never replace a different file that happens to have the same name
+  if (await exists(path)) {
+    const downloadedSha256 = await hashFile(partial);
+    if (downloadedSha256 !== expectedSha256) {
+      await rm(partial, { force: true });
+      throw new HashMismatchError(expectedSha256, downloadedSha256, { modelVersionId, path });
+    }
+    const { sha256: existingSha256 } = await hashCache.hashesFor(path);
+    if (downloadedSha256 !== existingSha256) {
+      await rm(partial, { force: true });
+      await hashCache.save();
+      throw new FileExistsError(path, { modelVersionId, sha256: downloadedSha256, existingSha256 });
+    }
+  }
+  await rename(partial, path);
+
+  const { sha256 } = await hashCache.hashesFor(path);
+  await hashCache.save();
+  if (sha256 !== expectedSha256) {
+    await rm(path, { force: true });
+    throw new HashMismatchError(expectedSha256, sha256, { modelVersionId, path });
+  }
+
+  return {
+    ...result,
+    path,
+    bytes: downloaded,
+    resumedFrom: offset,
+    alreadyPresent: false,
+    sha256,
+    verified: true,
+  };
+}
@@ -0,0 +1,152 @@
+import { ZodError } from 'zod';
+
+/**
+ * Base class for failures that should reach MCP callers in machine-readable form.
+ */
+export class CivitaiError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON() {
+    return { code: this.code, message: this.message, ...this.details };
+  }
+}
+
+/** The model, version or other resource does not exist (HTTP 404) */
+export class NotFoundError extends CivitaiError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('NOT_FOUND', message, { status: 404, ...details });
+  }
+}
+
+/** Missing or rejected API key, e.g. early-access or gated downloads (HTTP 401/403) */
+export class UnauthorizedError extends CivitaiError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('UNAUTHORIZED', message, details);
+  }
+}
+
+/** Civitai kept answering 429 (or asked us to wait longer than we are willing to) */
+export class RateLimitedError extends CivitaiError {
+  constructor(readonly retryAfterMs: number) {
+    super(
+      'RATE_LIMITED',
+      `Rate limited by Civitai; retry after ${Math.ceil(retryAfterMs / 1000)}s`,
+      { retryAfterMs }
+    );
+  }
+}
+
+/** The response no longer matches our zod schemas, usually after an API change */
+export class SchemaDriftError extends CivitaiError {
+  constructor(endpoint: string, error: ZodError) {
+    const issues = error.issues.slice(0, 10).map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    super(
+      'SCHEMA_DRIFT',
+      `Unexpected response shape from ${endpoint}: ${issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ')}`,
+      { endpoint, issues }
+    );
+  }
+}
+
+/** The request never produced an HTTP response (DNS, connection reset, timeout) */
+export class NetworkError extends CivitaiError {
+  constructor(message: string) {
+    super('NETWORK_ERROR', `Network error: ${message}`);
+  }
+}
+
+/** Tool arguments failed validation before any request was made */
+export class InvalidArgumentsError extends CivitaiError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('INVALID_ARGUMENTS', message, details);
+  }
+}
+
+/** A downloaded file's SHA256 differs from the one Civitai publishes for it */
+export class HashMismatchError extends CivitaiError {
+  constructor(expected: string, actual: string, details: Record<string, unknown> = {}) {
+    super('HASH_MISMATCH', `Downloaded file failed verification: expected SHA256 ${expected}, got ${actual}`, {
+      expected,
+      actual,
+      ...details,
+    });
+  }
+}
+
+/** A download would replace a different file of the same name already in the library */
+export class FileExistsError extends CivitaiError {
+  constructor(path: string, details: Record<string, unknown> = {}) {
+    super('FILE_EXISTS', `${path} already exists with different contents; move it away and download again`, {
+      path,
+      ...details,
+    });
+  }
+}
+
+/** The file fails the configured safety policy, e.g. an unscanned or PickleTensor file */
+export class SafetyPolicyError extends CivitaiError {
+  constructor(fileName: string, reasons: string[], details: Record<string, unknown> = {}) {
+    super('SAFETY_POLICY', `${fileName} is blocked by the safety policy: ${reasons.join('; ')}`, {
+      file: fileName,
+      reasons,
+      ...details,
+    });
+  }
+}
+
+/** The model or image exists but is above the content policy's browsing level or depicts a real person */
+export class ContentPolicyError extends CivitaiError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('CONTENT_POLICY', message, details);
+  }
+}
+
+/** The config file, environment or CLI flags hold unknown or invalid settings */
+export class ConfigError extends CivitaiError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('INVALID_CONFIG', message, details);
+  }
+}
+
+/** Any other non-OK HTTP status, typically 5xx after retries ran out */
+export class ApiError extends CivitaiError {
+  constructor(readonly status: number, message: string, details: Record<string, unknown> = {}) {
+    super('API_ERROR', message, { status, ...details });
+  }
+}
+
+/**
+ * Maps a non-OK HTTP status to the matching error class.
+ */
+export function errorForStatus(status: number, endpoint: string, reason: string): CivitaiError {
+  const message = `Civitai returned ${status} for ${endpoint}: ${reason}`;
+  switch (status) {
+    case 404:
+      return new NotFoundError(message, { endpoint });
+    case 401:
+    case 403:
+      return new UnauthorizedError(message, { status, endpoint });
+    default:
+      return new ApiError(status, message, { endpoint });
+  }
+}
+
+/**
+ * Normalizes anything thrown by a tool handler into a CivitaiError.
+ */
+export function toCivitaiError(error: unknown): CivitaiError {
+  if (error instanceof CivitaiError) {
+    return error;
+  }
+  return new CivitaiError('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error');
+}
@@ -0,0 +1,837 @@
+import { basename } from 'node:path';
+import { CacheStats } from './cache.js';
+import { DownloadResult } from './downloader.js';
+import { GenerationReport } from './generation-params.js';
+import { LocalImageReport } from './image-metadata.js';
+import { LicenseEntry, LicenseReport } from './license-report.js';
+import { LocalScanReport } from './local-library.js';
+import { ComparedFile, ModelComparison } from './model-comparison.js';
+import { ModelUpdateReport, VersionInfo } from './model-updates.js';
+import { Frequency, NumberRange, PromptSuggestions } from './prompt-suggestions.js';
+import { SchemaHealth } from './schema-drift.js';
+import { DEFAULT_SAFETY_POLICY, ModelSafetyReport, SafetyPolicy, checkFileSafety, primaryFile, servedFileSafety } from './safety-policy.js';
+import { StackEntry, StackReport } from './stack-compatibility.js';
+import { CollectedPage } from './pagination.js';
+import { Creator, Image, Model, ModelFile, ModelVersionResponse, Tag } from './types.js';
+
+// Normalized shapes returned by `output: "json"` and rendered by the markdown
+// functions below. Keep both in sync: markdown is a view over these objects.
+
+export type OutputFormat = 'markdown' | 'json';
+
+export interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  hasNextPage: boolean;
+  nextCursor?: string;
+  /** Items the content policy removed from the fetched pages */
+  withheld?: number;
+}
+
+export function normalizePagination(response: CollectedPage<unknown>): Pagination {
+  return {
+    currentPage: response.metadata.currentPage || 1,
+    totalPages: response.metadata.totalPages || 1,
+    totalItems: response.metadata.totalItems || response.items.length,
+    hasNextPage: response.cursor ? true : false,
+    nextCursor: response.cursor,
+    ...(response.withheld !== undefined && { withheld: response.withheld }),
+  };
+}
+
+/** How model summaries are trimmed for readability */
+export interface SummaryFormat {
+  /** Characters of description kept before `...` */
+  descriptionLength: number;
+  maxTags: number;
+}
+
+export const DEFAULT_SUMMARY_FORMAT: SummaryFormat = {
+  descriptionLength: 200,
+  maxTags: 5,
+};
+
+export function normalizeModelSummary(model: Model, format: SummaryFormat = DEFAULT_SUMMARY_FORMAT) {
+  const latestVersion = model.modelVersions[0];
+  return {
+    id: model.id,
+    name: model.name,
+    type: model.type,
+    creator: model.creator.username,
+    description: model.description.substring(0, format.descriptionLength) +
+      (model.description.length > format.descriptionLength ? '...' : ''),
+    tags: model.tags.slice(0, format.maxTags),
+    nsfw: model.nsfw,
+    stats: {
+      downloads: model.stats?.downloadCount || 0,
+      rating: model.stats?.rating || 0,
+      favorites: model.stats?.favoriteCount || 0,
+    },
+    latestVersion: latestVersion ? {
+      id: latestVersion.id,
+      name: latestVersion.name,
+      createdAt: latestVersion.createdAt,
+      trainedWords: latestVersion.trainedWords,
+    } : null,
+  };
+}
+
+export type ModelSummary = ReturnType<typeof normalizeModelSummary>;
+
+export function normalizeModelList(response: CollectedPage<Model>, format: SummaryFormat = DEFAULT_SUMMARY_FORMAT) {
+  const models = response.items.map(model => normalizeModelSummary(model, format));
+  return {
+    models,
+    pagination: normalizePagination(response),
+  };
+}
+
+export type ModelList = ReturnType<typeof normalizeModelList>;
+
+export function normalizeFile(file: ModelFile, policy: SafetyPolicy = DEFAULT_SAFETY_POLICY) {
+  const { passed, reasons } = checkFileSafety(file, policy);
+  return {
+    id: file.id,
+    name: file.name,
+    type: file.type,
+    sizeKb: file.sizeKb,
+    format: file.metadata?.format,
+    fp: file.metadata?.fp,
+    primary: file.primary,
+    hashes: file.hashes ?? {},
+    scanStatus: {
+      pickle: file.pickleScanResult,
+      virus: file.virusScanResult,
+    },
+    safety: { passed, reasons },
+  };
+}
+
+export type NormalizedFile = ReturnType<typeof normalizeFile>;
+
+// Version download URLs point at the primary file; withhold them unless it passes the policy
+function safeDownloadUrl(url: string | undefined, files: ModelFile[], policy: SafetyPolicy): string | undefined {
+  return servedFileSafety(files, primaryFile(files), policy).passed ? url : undefined;
+}
+
+export function normalizeModel(model: Model, policy: SafetyPolicy = DEFAULT_SAFETY_POLICY) {
+  return {
+    id: model.id,
+    name: model.name,
+    description: model.description,
+    type: model.type,
+    creator: {
+      username: model.creator.username,
+      avatar: model.creator.image,
+    },
+    tags: model.tags,
+    nsfw: model.nsfw,
+    permissions: {
+      allowNoCredit: model.allowNoCredit,
+      allowCommercialUse: model.allowCommercialUse,
+      allowDerivatives: model.allowDerivatives,
+      allowDifferentLicense: model.allowDifferentLicense,
+    },
+    stats: model.stats ?? {},
+    versions: model.modelVersions.map(version => ({
+      id: version.id,
+      name: version.name,
+      description: version.description,
+      createdAt: version.createdAt,
+      publishedAt: version.publishedAt,
+      baseModel: version.baseModel,
+      baseModelType: version.baseModelType,
+      availability: version.availability,
+      earlyAccessEndsAt: version.earlyAccessEndsAt,
+      trainedWords: version.trainedWords ?? [],
+      downloadUrl: safeDownloadUrl(version.downloadUrl, version.files ?? [], policy),
+      stats: version.stats ?? {},
+      files: (version.files ?? []).map(file => normalizeFile(file, policy)),
+      imageCount: version.images?.length ?? 0,
+    })),
+    withheldImages: model.withheldImages,
+  };
+}
+
+export type NormalizedModel = ReturnType<typeof normalizeModel>;
+
+export function normalizeModelVersion(version: ModelVersionResponse, policy: SafetyPolicy = DEFAULT_SAFETY_POLICY) {
+  return {
+    id: version.id,
+    name: version.name,
+    description: version.description ?? '',
+    modelId: version.modelId,
+    model: {
+      name: version.model.name,
+      type: version.model.type,
+      nsfw: version.model.nsfw,
+    },
+    createdAt: version.createdAt,
+    publishedAt: version.publishedAt,
+    baseModel: version.baseModel,
+    baseModelType: version.baseModelType,
+    availability: version.availability,
+    earlyAccessEndsAt: version.earlyAccessEndsAt,
+    trainedWords: version.trainedWords,
+    downloadUrl: safeDownloadUrl(version.downloadUrl, version.files, policy),
+    stats: version.stats,
+    files: version.files.map(file => normalizeFile(file, policy)),
+    imageCount: version.images.length,
+    withheldImages: version.withheldImages,
+  };
+}
+
+export type NormalizedModelVersion = ReturnType<typeof normalizeModelVersion>;
+
+export function normalizeImage(image: Image) {
+  return {
+    id: image.id,
+    url: image.url,
+    creator: image.username,
+    width: image.width,
+    height: image.height,
+    nsfwLevel: image.nsfwLevel,
+    createdAt: image.createdAt,
+    postId: image.postId,
+    stats: {
+      hearts: image.stats?.heartCount || 0,
+      likes: image.stats?.likeCount || 0,
+      comments: image.stats?.commentCount || 0,
+    },
+    modelVersionIds: image.modelVersionIds ?? [],
+    meta: image.meta ?? null,
+  };
+}
+
+export type NormalizedImage = ReturnType<typeof normalizeImage>;
+
+export function normalizeImageList(response: CollectedPage<Image>) {
+  return {
+    images: response.items.map(normalizeImage),
+    pagination: normalizePagination(response),
+  };
+}
+
+export type ImageList = ReturnType<typeof normalizeImageList>;
+
+export function normalizeCreatorList(response: CollectedPage<Creator>) {
+  return {
+    creators: response.items.map(creator => ({
+      username: creator.username,
+      modelCount: creator.modelCount || 0,
+      link: creator.link,
+      image: creator.image,
+    })),
+    pagination: normalizePagination(response),
+  };
+}
+
+export type CreatorList = ReturnType<typeof normalizeCreatorList>;
+
+export function normalizeTagList(response: CollectedPage<Tag>) {
+  return {
+    tags: response.items.map(tag => ({
+      name: tag.name,
+      modelCount: tag.modelCount || 0,
+    })),
+    pagination: normalizePagination(response),
+  };
+}
+
+export type TagList = ReturnType<typeof normalizeTagList>;
+
+// Creator and tag cards: the entry plus its most downloaded models
+export function normalizeCreatorProfile(creator: Creator, models: Model[], format: SummaryFormat = DEFAULT_SUMMARY_FORMAT) {
+  return {
+    username: creator.username,
+    modelCount: creator.modelCount || 0,
+    link: creator.link,
+    image: creator.image,
+    topModels: models.map(model => normalizeModelSummary(model, format)),
+  };
+}
+
+export type CreatorProfile = ReturnType<typeof normalizeCreatorProfile>;
+
+export function normalizeTagProfile(tag: Tag, models: Model[], format: SummaryFormat = DEFAULT_SUMMARY_FORMAT) {
+  return {
+    name: tag.name,
+    modelCount: tag.modelCount || 0,
+    link: tag.link,
+    topModels: models.map(model => normalizeModelSummary(model, format)),
+  };
+}
+
+export type TagProfile = ReturnType<typeof normalizeTagProfile>;
+
+// Markdown rendering
+
+/** Dates as YYYY-MM-DD so output does not depend on the server's locale or timezone */
+export function formatDate(value: string | undefined | null): string {
+  if (!value) return 'Unknown';
+  const date = new Date(value);
+  // Show dates the API sends in a form we can't parse as they are
+  return Number.isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+}
+
+export function formatNumber(value: number | undefined | null): string {
+  return (value || 0).toLocaleString('en-US');
+}
+
+export function renderModelSearch(list: ModelList): string {
+  return `Found ${list.pagination.totalItems} models:\n\n${list.models.map(model =>
+    `**${model.name}** (${model.type})\n` +
+    `Creator: ${model.creator}\n` +
+    `Downloads: ${formatNumber(model.stats.downloads)} | Rating: ${model.stats.rating.toFixed(1)}\n` +
+    `Tags: ${model.tags.join(', ')}\n` +
+    `${model.description}\n`
+  ).join('\n---\n')}\n\nPage ${list.pagination.currentPage} of ${list.pagination.totalPages}`;
+}
+
+export function renderModel(model: NormalizedModel): string {
+  return `# ${model.name}\n\n` +
+    `**Type:** ${model.type}\n` +
+    `**Creator:** ${model.creator.username}\n` +
+    `**Downloads:** ${formatNumber(model.stats.downloadCount)}\n` +
+    `**Rating:** ${model.stats.rating?.toFixed(1) || 'N/A'} (${model.stats.ratingCount || 0} ratings)\n` +
+    `**NSFW:** ${model.nsfw ? 'Yes' : 'No'}\n\n` +
+    `**Tags:** ${model.tags.join(', ')}\n\n` +
+    `**Description:**\n${model.description}\n\n` +
+    `**Versions (${model.versions.length}):**\n${model.versions.map(v =>
+      `- **${v.name}** (ID: ${v.id})\n  ` +
+      `Created: ${formatDate(v.createdAt)}\n  ` +
+      `Downloads: ${formatNumber(v.stats.downloadCount)}\n  ` +
+      `Trained words: ${v.trainedWords.join(', ') || 'None'}\n  ` +
+      `Files (${v.files.length}):\n${v.files.map(file =>
+        `  - ${file.name || 'Unnamed file'}${file.primary ? ' (primary)' : ''}\n` +
+        `    Hashes: ${renderHashes(file.hashes)}\n` +
+        `    Safety: ${renderSafety(file.safety)}\n`
+      ).join('')}`
+    ).join('\n')}`;
+}
+
+function renderSafety(safety: NormalizedFile['safety']): string {
+  return safety.passed ? 'Passed' : `Blocked (${safety.reasons.join('; ')})`;
+}
+
+function renderHashes(hashes: NormalizedFile['hashes']): string {
+  const entries = Object.entries(hashes).filter(([, value]) => typeof value === 'string');
+  return entries.map(([type, value]) => `${type} ${value}`).join(', ') || 'None';
+}
+
+export function renderModelVersion(version: NormalizedModelVersion): string {
+  return `# ${version.model.name} - ${version.name}\n\n` +
+    `**Model Type:** ${version.model.type}\n` +
+    `**Version ID:** ${version.id}\n` +
+    `**Base Model:** ${version.baseModel || 'Unknown'}\n` +
+    `**Created:** ${formatDate(version.createdAt)}\n` +
+    `**Downloads:** ${formatNumber(version.stats.downloadCount)}\n` +
+    `**Rating:** ${version.stats.rating?.toFixed(1) || 'N/A'}\n\n` +
+    `**Trained Words:** ${version.trainedWords.join(', ') || 'None'}\n\n` +
+    `**Description:**\n${version.description}\n\n` +
+    `**Files (${version.files.length}):**\n${version.files.map(file =>
+      `- **${file.name || 'Unnamed file'}** (ID: ${file.id ?? 'Unknown'})\n` +
+      `  Size: ${file.sizeKb ? (file.sizeKb / 1024).toFixed(1) : 'Unknown'} MB\n` +
+      `  Format: ${file.format || 'Unknown'}\n` +
+      `  FP: ${file.fp || 'Unknown'}\n` +
+      `  Scans: Pickle=${file.scanStatus.pickle || 'Unknown'}, Virus=${file.scanStatus.virus || 'Unknown'}\n` +
+      `  Hashes: ${renderHashes(file.hashes)}\n` +
+      `  Safety: ${renderSafety(file.safety)}\n`
+    ).join('\n') || 'No files available'}\n` +
+    `**Sample Images:** ${version.imageCount} available`;
+}
+
+export function renderModelVersionByHash(version: NormalizedModelVersion, hash: string): string {
+  return `# Model Found by Hash\n\n` +
+    `**Model:** ${version.model.name}\n` +
+    `**Version:** ${version.name} (ID: ${version.id})\n` +
+    `**Type:** ${version.model.type}\n` +
+    `**Hash:** ${hash}\n\n` +
+    `**Created:** ${formatDate(version.createdAt)}\n` +
+    `**Downloads:** ${formatNumber(version.stats.downloadCount)}\n` +
+    `**Trained Words:** ${version.trainedWords.join(', ') || 'None'}\n\n` +
+    `**Description:**\n${version.description}`;
+}
+
+export function renderImages(list: ImageList): string {
+  return `Found ${list.pagination.totalItems} images:\n\n${list.images.map(image =>
+    renderImage(image) + '\n'
+  ).join('---\n')}\nPage ${list.pagination.currentPage}`;
+}
+
+export function renderImage(image: NormalizedImage): string {
+  return `**Image ID:** ${image.id}\n` +
+    `**Creator:** ${image.creator || 'Unknown'}\n` +
+    `**Dimensions:** ${image.width}x${image.height}\n` +
+    `**NSFW Level:** ${image.nsfwLevel || 'Unknown'}\n` +
+    `**Reactions:** ❤️ ${image.stats.hearts} | 👍 ${image.stats.likes} | 💬 ${image.stats.comments}\n` +
+    `**URL:** ${image.url}\n` +
+    `**Created:** ${formatDate(image.createdAt)}\n` +
+    (image.meta ? `**Generation Info:** ${JSON.stringify(image.meta, null, 2).substring(0, 200)}...\n` : '');
+}
+
+export function renderCreators(list: CreatorList): string {
+  return `Found ${list.pagination.totalItems} creators:\n\n${list.creators.map(creator =>
+    `**${creator.username}**\n` +
+    `Models: ${creator.modelCount}\n` +
+    (creator.link ? `Profile: ${creator.link}\n` : '') +
+    '\n'
+  ).join('---\n')}\nPage ${list.pagination.currentPage} of ${list.pagination.totalPages}`;
+}
+
+export function renderCreatorProfile(profile: CreatorProfile): string {
+  return `# ${profile.username}\n\n` +
+    `**Models:** ${profile.modelCount}\n` +
+    (profile.link ? `**Profile:** ${profile.link}\n` : '') +
+    `\n## Most Downloaded Models\n\n${renderTopModels(profile.topModels)}`;
+}
+
+export function renderTagProfile(profile: TagProfile): string {
+  return `# Tag: ${profile.name}\n\n` +
+    `**Models:** ${profile.modelCount}\n` +
+    `\n## Most Downloaded Models\n\n${renderTopModels(profile.topModels)}`;
+}
+
+function renderTopModels(models: ModelSummary[]): string {
+  return models.map(model =>
+    `- **${model.name}** (${model.type}, ID: ${model.id}) - ${formatNumber(model.stats.downloads)} downloads\n`
+  ).join('') || 'None\n';
+}
+
+export function renderTags(list: TagList): string {
+  return `Found ${list.pagination.totalItems} tags:\n\n${list.tags.map(tag =>
+    `**${tag.name}** (${tag.modelCount} models)\n`
+  ).join('')}\nPage ${list.pagination.currentPage} of ${list.pagination.totalPages}`;
+}
+
+export function renderPopularModels(list: ModelList, period: string): string {
+  return `# Most Popular Models (${period})\n\n${list.models.map((model, index) =>
+    `${index + 1}. **${model.name}** (${model.type})\n` +
+    `   Creator: ${model.creator}\n` +
+    `   Downloads: ${formatNumber(model.stats.downloads)}\n` +
+    `   Rating: ${model.stats.rating.toFixed(1)} ⭐\n\n`
+  ).join('')}`;
+}
+
+export function renderLatestModels(list: ModelList): string {
+  return `# Latest Models\n\n${list.models.map(model =>
+    `**${model.name}** (${model.type})\n` +
+    `Creator: ${model.creator}\n` +
+    `Created: ${formatDate(model.latestVersion?.createdAt)}\n` +
+    `${model.description}\n\n`
+  ).join('---\n')}`;
+}
+
+export function renderTopRatedModels(list: ModelList, period: string): string {
+  return `# Top Rated Models (${period})\n\n${list.models.map((model, index) =>
+    `${index + 1}. **${model.name}** (${model.type})\n` +
+    `   Creator: ${model.creator}\n` +
+    `   Rating: ${model.stats.rating.toFixed(1)} ⭐ (${formatNumber(model.stats.downloads)} downloads)\n\n`
+  ).join('')}`;
+}
+
+export function renderModelsByTag(list: ModelList, tag: string): string {
+  return `# Models tagged "${tag}"\n\n${list.models.map(model =>
+    `**${model.name}** (${model.type})\n` +
+    `Creator: ${model.creator}\n` +
+    `Downloads: ${formatNumber(model.stats.downloads)} | Rating: ${model.stats.rating.toFixed(1)}\n` +
+    `${model.description}\n\n`
+  ).join('---\n')}`;
+}
+
+export function renderModelsByCreator(list: ModelList, username: string): string {
+  return `# Models by ${username}\n\n${list.models.map(model =>
+    `**${model.name}** (${model.type})\n` +
+    `Downloads: ${formatNumber(model.stats.downloads)} | Rating: ${model.stats.rating.toFixed(1)}\n` +
+    `Tags: ${model.tags.join(', ')}\n` +
+    `${model.description}\n\n`
+  ).join('---\n')}`;
+}
+
+export function renderModelsByType(list: ModelList, type: string): string {
+  return `# ${type} Models\n\n${list.models.map(model =>
+    `**${model.name}**\n` +
+    `Creator: ${model.creator}\n` +
+    `Downloads: ${formatNumber(model.stats.downloads)} | Rating: ${model.stats.rating.toFixed(1)}\n` +
+    `${model.description}\n\n`
+  ).join('---\n')}`;
+}
+
+export function renderDownloadUrl(info: { modelVersionId: number; downloadUrl: string; tokenized?: boolean }): string {
+  const header = `Download URL for model version ${info.modelVersionId}:\n\n${info.downloadUrl}\n\n`;
+  if (info.tokenized) {
+    return header +
+      `**Note:** This link contains an API key. Anyone holding it can download as the key's owner; do not share it.\n` +
+      `Use \`wget "${info.downloadUrl}" --content-disposition\` to download with proper filename.`;
+  }
+  return header +
+    `**Note:** Use \`wget "${info.downloadUrl}" --content-disposition\` to download with proper filename.\n` +
+    `If the model requires authentication, send your API key as a header: ` +
+    `\`wget --header="Authorization: Bearer $CIVITAI_API_KEY" "${info.downloadUrl}" --content-disposition\``;
+}
+
+export function renderCacheStats(stats: CacheStats | null): string {
+  if (!stats) {
+    return 'Response cache is disabled (CIVITAI_CACHE=off).';
+  }
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? ((stats.hits / lookups) * 100).toFixed(1) : '0.0';
+
+  return `# Cache Statistics\n\n` +
+    `**Store:** ${stats.store}\n` +
+    `**Entries:** ${stats.entries}\n` +
+    `**Hits:** ${stats.hits}\n` +
+    `**Misses:** ${stats.misses}\n` +
+    `**Revalidated (304):** ${stats.revalidated}\n` +
+    `**Hit rate:** ${hitRate}%`;
+}
+
+export function renderCacheCleared(result: { removed: number; endpoint?: string }): string {
+  return `Removed ${result.removed} cached response(s)${result.endpoint ? ` matching "${result.endpoint}"` : ''}.`;
+}
+
+export function renderSchemaHealth(health: SchemaHealth): string {
+  if (health.totalEvents === 0) {
+    return `No schema drift seen this session (mode: ${health.mode}).`;
+  }
+
+  return `# Schema Health\n\n` +
+    `**Mode:** ${health.mode}\n` +
+    `**Drift events:** ${health.totalEvents}\n\n` +
+    `| Endpoint | Path | Kind | Count | Values | Last message |\n` +
+    `|----------|------|------|-------|--------|--------------|\n` +
+    health.drift.map(entry =>
+      `| ${entry.endpoint} | ${entry.path || '(root)'} | ${entry.kind} | ${entry.count} | ` +
+      `${entry.values.map(value => JSON.stringify(value)).join(', ') || '-'} | ${entry.lastMessage.replace(/\|/g, '\\|')} |\n`
+    ).join('');
+}
+
+export function renderLocalScan(report: LocalScanReport): string {
+  const identified = report.files.filter(file => file.status === 'identified');
+  const unknown = report.files.filter(file => file.status === 'unknown');
+  const failed = report.files.filter(file => file.status === 'error');
+
+  let text = `# Local Model Scan\n\n` +
+    `**Directory:** ${report.directory}\n` +
+    `**Files:** ${report.files.length} (${report.identified} identified, ${report.unknown} unknown, ${report.errors} errors)\n`;
+
+  if (identified.length > 0) {
+    text += `\n## Identified\n\n${identified.map(file => {
+      const match = file.match!;
+      return `**${match.modelName}** - ${match.versionName} (${match.type}${match.baseModel ? `, ${match.baseModel}` : ''})\n` +
+        `File: ${file.path}\n` +
+        `AutoV2: ${file.autoV2}\n` +
+        `Model ID: ${match.modelId} | Version ID: ${match.versionId}\n` +
+        (match.trainedWords.length > 0 ? `Trained words: ${match.trainedWords.join(', ')}\n` : '');
+    }).join('\n')}`;
+  }
+
+  if (unknown.length > 0) {
+    text += `\n## Unknown\n\n${unknown.map(file =>
+      `- ${file.path} (AutoV2 ${file.autoV2}, ${(file.sizeKb / 1024).toFixed(1)} MB)\n`
+    ).join('')}`;
+  }
+
+  if (failed.length > 0) {
+    text += `\n## Errors\n\n${failed.map(file => `- ${file.path}: ${file.error}\n`).join('')}`;
+  }
+
+  return text;
+}
+
+function describeVersion(version: VersionInfo): string {
+  const details = [version.baseModel, version.createdAt && formatDate(version.createdAt)].filter(Boolean);
+  return `${version.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+export function renderModelUpdates(report: ModelUpdateReport): string {
+  const byStatus = (status: string) => report.checks.filter(check => check.status === status);
+  const updates = byStatus('update-available');
+  const current = byStatus('up-to-date');
+  const missing = byStatus('not-found');
+  const failed = byStatus('error');
+
+  let text = `# Model Update Check\n\n` +
+    `**Checked:** ${report.checks.length} | **Updates available:** ${report.updatesAvailable}\n`;
+
+  if (updates.length > 0) {
+    text += `\n## Updates Available\n\n${updates.map(check => {
+      const added = check.trainedWords!.added;
+      const removed = check.trainedWords!.removed;
+      return `**${check.modelName}** (${check.type})\n` +
+        `Installed: ${describeVersion(check.current!)} [${check.input}]\n` +
+        `Latest: ${describeVersion(check.latest!)} - version ID ${check.latest!.id}, ${check.newerVersions} newer version(s)\n` +
+        (added.length > 0 ? `Trained words added: ${added.join(', ')}\n` : '') +
+        (removed.length > 0 ? `Trained words removed: ${removed.join(', ')}\n` : '');
+    }).join('\n')}`;
+  }
+
+  if (current.length > 0) {
+    text += `\n## Up to Date\n\n${current.map(check =>
+      `- **${check.modelName}** ${describeVersion(check.current!)} [${check.input}]\n`
+    ).join('')}`;
+  }
+
+  if (missing.length > 0) {
+    text += `\n## Not Found\n\n${missing.map(check => `- ${check.input}\n`).join('')}`;
+  }
+
+  if (failed.length > 0) {
+    text += `\n## Errors\n\n${failed.map(check => `- ${check.input}: ${check.error}\n`).join('')}`;
+  }
+
+  return text;
+}
+
+export function renderDownload(result: DownloadResult): string {
+  const verification = result.verified
+    ? `verified (SHA256 ${result.sha256})`
+    : `not verified; Civitai lists no SHA256 for this file (got ${result.sha256})`;
+
+  return `# ${result.alreadyPresent ? 'Already Downloaded' : 'Download Complete'}\n\n` +
+    `**Model:** ${result.modelName} - ${result.versionName} (${result.type})\n` +
+    `**Path:** ${result.path}\n` +
+    `**Size:** ${(result.bytes / 1024 / 1024).toFixed(1)} MB` +
+    (result.resumedFrom > 0 ? ` (resumed at ${formatNumber(result.resumedFrom)} bytes)` : '') + `\n` +
+    `**Hash:** ${verification}`;
+}
+
+export function renderGenerationParams(report: GenerationReport): string {
+  return `# Generation Parameters${report.imageId ? ` (image ${report.imageId})` : ''}\n\n` + renderGenerationDetails(report);
+}
+
+export function renderLocalImage(report: LocalImageReport): string {
+  const source = report.source === 'comfyui' ? 'ComfyUI graph' : 'A1111 parameters';
+  return `# Image Metadata: ${basename(report.path)}\n\n` +
+    `**Path:** ${report.path}\n` +
+    `**Format:** ${report.format.toUpperCase()} | **Source:** ${source}\n\n` +
+    renderGenerationDetails(report);
+}
+
+function renderGenerationDetails(report: GenerationReport): string {
+  const { params } = report;
+  const settings = [
+    ['Sampler', params.sampler],
+    ['Steps', params.steps],
+    ['CFG', params.cfgScale],
+    ['Seed', params.seed],
+    ['Size', params.width && params.height ? `${params.width}x${params.height}` : undefined],
+    ['Clip skip', params.clipSkip],
+    ['Denoising strength', params.denoisingStrength],
+    ...Object.entries(params.extra),
+  ].filter(([, value]) => value !== undefined);
+
+  const resources = params.resources.map(resource => {
+    const label = [
+      resource.name ?? 'unnamed',
+      resource.weight !== undefined && resource.type !== 'checkpoint' ? `weight ${resource.weight}` : undefined,
+      resource.hash ? `hash ${resource.hash}` : undefined,
+    ].filter(Boolean).join(', ');
+    const civitai = resource.civitai
+      ? ` -> ${resource.civitai.modelName} - ${resource.civitai.versionName} ` +
+        `(model ${resource.civitai.modelId}, version ${resource.civitai.modelVersionId})`
+      : resource.withheld ? ' -> withheld by the content policy' : '';
+    return `- ${resource.type}: ${label}${civitai}\n`;
+  }).join('');
+
+  return `**Prompt:**\n${params.prompt || 'None'}\n\n` +
+    `**Negative prompt:**\n${params.negativePrompt || 'None'}\n\n` +
+    `**Settings:** ${settings.map(([key, value]) => `${key}: ${value}`).join(' | ') || 'None'}\n\n` +
+    `**Resources:**\n${resources || 'None\n'}\n` +
+    `## A1111 Infotext\n\n\`\`\`text\n${report.infotext}\n\`\`\`\n\n` +
+    `## ComfyUI Prompt (API format)\n\n\`\`\`json\n${JSON.stringify(report.comfyui, null, 2)}\n\`\`\``;
+}
+
+function describeRange(range: NumberRange | undefined): string {
+  if (!range) return 'Unknown';
+  return range.min === range.max ? `${range.min}` : `${range.min}-${range.max} (median ${range.median})`;
+}
+
+function describeFrequencies(values: Frequency[]): string {
+  return values.map(({ value, count }) => `${value} (${count})`).join(', ') || 'None';
+}
+
+export function renderPromptSuggestions(suggestions: PromptSuggestions): string {
+  const templates = suggestions.templates.map(template => {
+    const settings = [
+      template.sampler,
+      template.steps !== undefined ? `${template.steps} steps` : undefined,
+      template.cfgScale !== undefined ? `CFG ${template.cfgScale}` : undefined,
+      template.size,
+      template.weight !== undefined ? `weight ${template.weight}` : undefined,
+    ].filter(Boolean).join(', ');
+    return `### ${template.rank}. ${formatNumber(template.source.reactions)} reactions` +
+      `${template.source.imageId ? ` (image ${template.source.imageId})` : ''}\n\n` +
+      `**Prompt:** ${template.prompt}\n` +
+      `**Negative:** ${template.negativePrompt || 'None'}\n` +
+      `**Settings:** ${settings || 'Unknown'}\n` +
+      (template.addedTriggerWords.length > 0 ? `**Added trigger words:** ${template.addedTriggerWords.join(', ')}\n` : '') +
+      '\n';
+  }).join('');
+
+  return `# Prompt Suggestions: ${suggestions.modelName} - ${suggestions.versionName}\n\n` +
+    `**Type:** ${suggestions.type} | **Base Model:** ${suggestions.baseModel || 'Unknown'}\n` +
+    `**Trigger Words:** ${suggestions.trainedWords.join(', ') || 'None'}\n` +
+    `**Samples Analyzed:** ${suggestions.imagesAnalyzed}\n\n` +
+    `## Common Settings\n\n` +
+    `- Sampler: ${describeFrequencies(suggestions.settings.samplers)}\n` +
+    `- Steps: ${describeRange(suggestions.settings.steps)}\n` +
+    `- CFG: ${describeRange(suggestions.settings.cfgScale)}\n` +
+    `- Size: ${describeFrequencies(suggestions.settings.sizes)}\n` +
+    (suggestions.settings.weight ? `- Weight: ${describeRange(suggestions.settings.weight)}\n` : '') +
+    `\n## Prompt Templates\n\n${templates || 'No sample images with prompts found.\n\n'}` +
+    `## Common Prompt Tokens\n\n${describeFrequencies(suggestions.commonTokens)}\n\n` +
+    `## Common Negative Tokens\n\n${describeFrequencies(suggestions.commonNegativeTokens)}`;
+}
+
+function yesNo(value: boolean | undefined): string {
+  return value === undefined ? 'Unknown' : value ? 'Yes' : 'No';
+}
+
+function describeFile(file: ComparedFile): string {
+  const size = file.sizeKb ? `${(file.sizeKb / 1024).toFixed(1)} MB` : undefined;
+  return [file.name ?? 'unnamed', size, file.fp, file.format].filter(Boolean).join(' ');
+}
+
+// Table cells can't hold pipes or newlines
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function renderModelComparison(comparison: ModelComparison): string {
+  const { models } = comparison;
+  const rows: Array<[string, (model: ModelComparison['models'][number]) => string]> = [
+    ['Input', model => model.input],
+    ['Type', model => model.type],
+    ['Creator', model => model.creator ?? 'Unknown'],
+    ['Version', model => model.versionName ? `${model.versionName} (${model.versionId})` : 'None'],
+    ['Base model', model => model.baseModel ?? 'Unknown'],
+    ['Version date', model => formatDate(model.versionDate)],
+    ['Downloads', model => formatNumber(model.downloads)],
+    ['Rating', model => model.rating !== undefined ? `${model.rating.toFixed(2)} (${formatNumber(model.ratingCount)})` : 'N/A'],
+    ['Favorites', model => formatNumber(model.favorites)],
+    ['Files', model => model.files.map(describeFile).join('<br>') || 'None'],
+    ['Scans', model => model.files.map(file => `pickle ${file.pickleScan ?? '?'}, virus ${file.virusScan ?? '?'}`).join('<br>') || 'None'],
+    ['Commercial use', model => model.permissions.allowCommercialUse?.join(', ') || (model.permissions.allowCommercialUse ? 'None' : 'Unknown')],
+    ['Derivatives allowed', model => yesNo(model.permissions.allowDerivatives)],
+    ['No credit needed', model => yesNo(model.permissions.allowNoCredit)],
+    ['Different license', model => yesNo(model.permissions.allowDifferentLicense)],
+    ['Trigger words', model => model.trainedWords.join(', ') || 'None'],
+  ];
+
+  const table = `| | ${models.map(model => cell(model.modelName)).join(' | ')} |\n` +
+    `|---|${models.map(() => '---').join('|')}|\n` +
+    rows.map(([label, value]) => `| **${label}** | ${models.map(model => cell(value(model))).join(' | ')} |\n`).join('');
+
+  const conflicts = comparison.conflicts.map(conflict =>
+    `- ${conflict.inputs[0]} (${conflict.baseModels[0]}) and ${conflict.inputs[1]} (${conflict.baseModels[1]}): ` +
+    (conflict.compatibility === 'incompatible' ? 'incompatible architectures' : 'same architecture, different family') + '\n'
+  ).join('');
+
+  const unavailable = comparison.unavailable.map(entry =>
+    `- ${entry.input}: ${entry.status === 'not-found' ? 'not found on Civitai' : entry.error}\n`
+  ).join('');
+
+  return `# Model Comparison\n\n${models.length > 0 ? table : 'None of the requested models could be fetched.\n'}\n` +
+    (unavailable ? `## Not Compared\n\n${unavailable}\n` : '') +
+    `## Base Models\n\n` +
+    `**Base models:** ${comparison.baseModels.join(', ') || 'Unknown'}\n` +
+    (conflicts ? `\n**Incompatible base models:**\n${conflicts}` : 'All compared models share a compatible base model.\n');
+}
+
+function describeStackEntry(entry: StackEntry): string {
+  if (entry.status === 'not-found') return `${entry.input}: not found on Civitai`;
+  if (entry.status === 'error') return `${entry.input}: ${entry.error}`;
+  return `**${entry.modelName}** - ${entry.versionName} (${entry.type}, ${entry.baseModel || 'unknown base'}) [${entry.input}]`;
+}
+
+export function renderStackCompatibility(report: StackReport): string {
+  const resources = report.resources.map(entry => {
+    const compatibility = entry.compatibility ? ` - ${entry.compatibility}` : '';
+    const alternatives = (entry.alternatives ?? []).map(alternative =>
+      `  - ${alternative.sameModel ? 'Same model: ' : ''}${alternative.modelName} - ${alternative.versionName} ` +
+      `(${alternative.baseModel}, version ID ${alternative.versionId})\n`
+    ).join('');
+    return `- ${describeStackEntry(entry)}${compatibility}\n` +
+      (entry.alternatives ? `  Alternatives:\n${alternatives || '  - None found\n'}` : '');
+  }).join('');
+
+  return `# Stack Compatibility: ${report.compatible ? 'Compatible' : 'Mismatched'}\n\n` +
+    `**Checkpoint:** ${describeStackEntry(report.checkpoint)}\n\n` +
+    `## Resources\n\n${resources}\n` +
+    (report.warnings.length > 0 ? `## Warnings\n\n${report.warnings.map(warning => `- ${warning}\n`).join('')}\n` : '') +
+    `## Trigger Words\n\n${report.triggerWords.join(', ') || 'None'}`;
+}
+
+const PERMISSION_LABELS: Record<string, string> = {
+  'allowed': 'Yes',
+  'not-allowed': 'No',
+  'civitai-only': 'Civitai only',
+  'unknown': 'Unknown',
+};
+
+const LICENSE_COLUMNS: Array<[keyof NonNullable<LicenseEntry['permissions']>, string]> = [
+  ['sellImages', 'Sell images'],
+  ['generationServices', 'Generation services'],
+  ['sellModel', 'Sell model'],
+  ['shareMerges', 'Share merges'],
+  ['differentLicense', 'Different license'],
+  ['noCredit', 'No credit'],
+];
+
+export function renderLicenseReport(report: LicenseReport): string {
+  const resolved = report.entries.filter(entry => entry.permissions);
+  const missing = report.entries.filter(entry => entry.status === 'not-found');
+  const failed = report.entries.filter(entry => entry.status === 'error');
+
+  let text = `# License Report\n\n`;
+  if (resolved.length > 0) {
+    text += `| Model | ${LICENSE_COLUMNS.map(([, label]) => label).join(' | ')} |\n` +
+      `|---|${LICENSE_COLUMNS.map(() => '---').join('|')}|\n` +
+      resolved.map(entry =>
+        `| ${cell(`${entry.modelName} (${entry.type}) [${entry.input}]`)} | ` +
+        `${LICENSE_COLUMNS.map(([key]) => PERMISSION_LABELS[entry.permissions![key]]).join(' | ')} |\n`
+      ).join('') +
+      `\n**Allowed by all ${resolved.length}:** ` +
+      (LICENSE_COLUMNS.filter(([key]) => report.summary[key].allowed === resolved.length).map(([, label]) => label).join(', ') || 'None') +
+      `\n`;
+  }
+
+  if (missing.length > 0) {
+    text += `\n## Not Found\n\n${missing.map(entry => `- ${entry.input}\n`).join('')}`;
+  }
+
+  if (failed.length > 0) {
+    text += `\n## Errors\n\n${failed.map(entry => `- ${entry.input}: ${entry.error}\n`).join('')}`;
+  }
+
+  return text + `\nBased on the permissions each creator set on Civitai. ` +
+    `Check the model's license text for further terms.`;
+}
+
+function describePolicy(policy: SafetyPolicy): string {
+  const rules = [
+    policy.requireSafeTensors && 'SafeTensor only',
+    policy.blockPickle && !policy.requireSafeTensors && 'no PickleTensor',
+    policy.requireScans && 'successful pickle and virus scans',
+    policy.maxScanAgeDays !== undefined && `scanned within ${policy.maxScanAgeDays} days`,
+  ].filter((rule): rule is string => !!rule);
+  return rules.join(', ') || 'no rules beyond flagged scans';
+}
+
+export function renderModelSafety(report: ModelSafetyReport): string {
+  return `# Safety Check: ${report.modelName} - ${report.versionName}\n\n` +
+    `**Version ID:** ${report.modelVersionId}\n` +
+    `**Type:** ${report.type}\n` +
+    `**Policy:** ${describePolicy(report.policy)}\n` +
+    `**Result:** ${report.passed ? 'Passed' : 'Blocked'}\n\n` +
+    `## Files\n\n${report.files.map(file =>
+      `- **${file.name || 'Unnamed file'}** (ID: ${file.id ?? 'Unknown'})${file.primary ? ' (primary)' : ''}: ` +
+      `${file.passed ? 'Passed' : 'Blocked'}\n` +
+      `  Format: ${file.format || 'Unknown'}, scans: Pickle=${file.pickleScan || 'Unknown'}, ` +
+      `Virus=${file.virusScan || 'Unknown'}, last scan ${formatDate(file.scannedAt)}\n` +
+      file.rules.map(rule => `  - ${rule.passed ? 'Pass' : 'Fail'} (${rule.rule}): ${rule.detail}\n`).join('')
+    ).join('') || 'No files available\n'}`;
+}
@@ -0,0 +1,584 @@
+import { CivitaiClient, isFileHash } from './civitai-client.js';
+import { ContentPolicyError, NotFoundError } from './errors.js';
+
+/** A model, LoRA, embedding, ... that took part in generating an image */
+export interface GenerationResource {
+  /** checkpoint, lora, lycoris, embedding, hypernetwork, vae, or whatever the source called it */
+  type: string;
+  name?: string;
+  hash?: string;
+  weight?: number;
+  modelVersionId?: number;
+  /** The Civitai model version the hash or id resolved to, when it did */
+  civitai?: {
+    modelId: number;
+    modelName: string;
+    modelVersionId: number;
+    versionName: string;
+    type: string;
+  };
+  /** The resource exists on Civitai but the content policy keeps it from being shown */
+  withheld?: boolean;
+}
+
+/** Generation settings normalized from Civitai image meta or an A1111 infotext block */
+export interface GenerationParams {
+  prompt?: string;
+  negativePrompt?: string;
+  sampler?: string;
+  steps?: number;
+  cfgScale?: number;
+  seed?: number;
+  width?: number;
+  height?: number;
+  clipSkip?: number;
+  denoisingStrength?: number;
+  resources: GenerationResource[];
+  /** Any other settings (Hires upscale, VAE, ...) as they appeared in the source */
+  extra: Record<string, string | number | boolean>;
+}
+
+// Meta keys that are folded into GenerationParams fields rather than `extra`
+const KNOWN_KEYS = new Set([
+  'prompt', 'negativePrompt', 'sampler', 'steps', 'cfgScale', 'seed', 'Size', 'Clip skip', 'clipSkip',
+  'Denoising strength', 'denoise', 'Model hash', 'Model', 'hashes', 'resources', 'civitaiResources',
+  'width', 'height',
+]);
+
+// Prefixes used in `hashes` keys and in `<type:name:weight>` prompt tags
+const RESOURCE_TYPES: Record<string, string> = {
+  model: 'checkpoint',
+  checkpoint: 'checkpoint',
+  lora: 'lora',
+  lyco: 'lycoris',
+  lycoris: 'lycoris',
+  locon: 'lycoris',
+  embed: 'embedding',
+  embedding: 'embedding',
+  textualinversion: 'embedding',
+  hypernet: 'hypernetwork',
+  hypernetwork: 'hypernetwork',
+  vae: 'vae',
+};
+
+function resourceType(type: string): string {
+  return RESOURCE_TYPES[type.toLowerCase()] ?? type.toLowerCase();
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Collects resources from every place they can appear, merging duplicates so a
+ * LoRA named in the prompt picks up the hash listed for it elsewhere.
+ */
+class ResourceSet {
+  private resources: GenerationResource[] = [];
+
+  add(resource: GenerationResource) {
+    const existing = this.resources.find(r =>
+      r.type === resource.type && (
+        (resource.name !== undefined && r.name === resource.name) ||
+        (resource.hash !== undefined && r.hash?.toLowerCase() === resource.hash.toLowerCase()) ||
+        (resource.modelVersionId !== undefined && r.modelVersionId === resource.modelVersionId)
+      )
+    );
+    if (!existing) {
+      this.resources.push({ ...resource });
+      return;
+    }
+    for (const [key, value] of Object.entries(resource)) {
+      if (value !== undefined && (existing as unknown as Record<string, unknown>)[key] === undefined) {
+        (existing as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  toArray(): GenerationResource[] {
+    // Checkpoint first; the rest in the order they were found
+    return [...this.resources].sort((a, b) => Number(b.type === 'checkpoint') - Number(a.type === 'checkpoint'));
+  }
+}
+
+/**
+ * Normalizes the `meta` object Civitai attaches to images. Resources are read from
+ * the checkpoint fields, `hashes`, `resources`, `civitaiResources` and
+ * `<lora:name:weight>` tags in the prompt.
+ */
+export function fromCivitaiMeta(meta: Record<string, unknown>): GenerationParams {
+  const resources = new ResourceSet();
+  const size = toText(meta.Size)?.match(/^(\d+)\s*x\s*(\d+)$/);
+  const prompt = toText(meta.prompt);
+
+  const checkpointHash = toText(meta['Model hash']) ?? toText((meta.hashes as Record<string, unknown> | undefined)?.model);
+  if (checkpointHash || toText(meta.Model)) {
+    resources.add({ type: 'checkpoint', name: toText(meta.Model), hash: checkpointHash });
+  }
+
+  if (Array.isArray(meta.resources)) {
+    for (const resource of meta.resources as Array<Record<string, unknown>>) {
+      resources.add({
+        type: resourceType(toText(resource.type) ?? 'unknown'),
+        name: toText(resource.name),
+        hash: toText(resource.hash),
+        weight: toNumber(resource.weight),
+      });
+    }
+  }
+
+  if (meta.hashes && typeof meta.hashes === 'object') {
+    for (const [key, hash] of Object.entries(meta.hashes as Record<string, unknown>)) {
+      const [prefix, ...name] = key.split(':');
+      if (prefix === 'model' || typeof hash !== 'string') continue;
+      resources.add({ type: resourceType(prefix), name: name.join(':') || undefined, hash });
+    }
+  }
+
+  for (const [, prefix, name, weight] of (prompt ?? '').matchAll(/<(lora|lyco|hypernet):([^:>]+)(?::([^:>]+))?[^>]*>/g)) {
+    resources.add({ type: resourceType(prefix), name, weight: toNumber(weight) ?? 1 });
+  }
+
+  if (Array.isArray(meta.civitaiResources)) {
+    for (const resource of meta.civitaiResources as Array<Record<string, unknown>>) {
+      resources.add({
+        type: resourceType(toText(resource.type) ?? 'unknown'),
+        name: toText(resource.modelVersionName),
+        weight: toNumber(resource.weight),
+        modelVersionId: toNumber(resource.modelVersionId),
+      });
+    }
+  }
+
+  const extra: GenerationParams['extra'] = {};
+  for (const [key, value] of Object.entries(meta)) {
+    if (!KNOWN_KEYS.has(key) && ['string', 'number', 'boolean'].includes(typeof value)) {
+      extra[key] = value as string | number | boolean;
+    }
+  }
+
+  return {
+    prompt,
+    negativePrompt: toText(meta.negativePrompt),
+    sampler: toText(meta.sampler),
+    steps: toNumber(meta.steps),
+    cfgScale: toNumber(meta.cfgScale),
+    seed: toNumber(meta.seed),
+    width: size ? Number(size[1]) : toNumber(meta.width),
+    height: size ? Number(size[2]) : toNumber(meta.height),
+    clipSkip: toNumber(meta['Clip skip'] ?? meta.clipSkip),
+    denoisingStrength: toNumber(meta['Denoising strength'] ?? meta.denoise),
+    resources: resources.toArray(),
+    extra,
+  };
+}
+
+// A1111 settings line keys that map onto Civitai meta keys
+const INFOTEXT_KEYS: Record<string, string> = {
+  'Steps': 'steps',
+  'Sampler': 'sampler',
+  'CFG scale': 'cfgScale',
+  'Seed': 'seed',
+};
+
+/**
+ * Parses the `parameters` text Automatic1111 (and Forge, SD.Next, ...) embed in
+ * images: prompt lines, a `Negative prompt:` section and a final settings line.
+ */
+export function parseInfotext(text: string): GenerationParams {
+  return fromCivitaiMeta(infotextToMeta(text));
+}
+
+/**
+ * Removes a `Key: [...]` or `Key: {...}` JSON value from a settings line. The
+ * Civitai generator writes its resource list this way, unquoted and full of commas.
+ */
+function takeJson(line: string, key: string): [value: unknown, rest: string] {
+  const start = line.indexOf(`${key}:`);
+  const open = start === -1 ? -1 : line.slice(start + key.length + 1).search(/\S/) + start + key.length + 1;
+  if (open === -1 || !'[{'.includes(line[open])) return [undefined, line];
+
+  let depth = 0;
+  let inString = false;
+  for (let i = open; i < line.length; i++) {
+    const char = line[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if ((char === ']' || char === '}') && --depth === 0) {
+      try {
+        const value = JSON.parse(line.slice(open, i + 1));
+        return [value, `${line.slice(0, start)}${line.slice(i + 1).replace(/^\s*,/, '')}`];
+      } catch {
+        return [undefined, line];
+      }
+    }
+  }
+  return [undefined, line];
+}
+
+/** Like {@link parseInfotext}, but returns the settings in the shape of Civitai image `meta` */
+export function infotextToMeta(text: string): Record<string, unknown> {
+  const lines = text.trim().split(/\r?\n/);
+  const settingsIndex = lines.length > 0 && /^\s*Steps:/.test(lines[lines.length - 1]) ? lines.length - 1 : -1;
+  const body = settingsIndex === -1 ? lines : lines.slice(0, settingsIndex);
+
+  const negativeIndex = body.findIndex(line => line.startsWith('Negative prompt:'));
+  const promptLines = negativeIndex === -1 ? body : body.slice(0, negativeIndex);
+  const meta: Record<string, unknown> = { prompt: promptLines.join('\n').trim() };
+  if (negativeIndex !== -1) {
+    meta.negativePrompt = body.slice(negativeIndex).join('\n').replace(/^Negative prompt:\s*/, '').trim();
+  }
+
+  if (settingsIndex !== -1) {
+    // The Civitai extension writes `Hashes: {"model": ..., "lora:name": ...}`, the generator `Civitai resources: [...]`
+    const [hashMap, withoutHashes] = takeJson(lines[settingsIndex], 'Hashes');
+    const [civitaiResources, withoutResources] = takeJson(withoutHashes, 'Civitai resources');
+    const [, settings] = takeJson(withoutResources, 'Civitai metadata');
+    const hashes: Record<string, string> = hashMap && typeof hashMap === 'object' ? { ...hashMap } : {};
+    if (Array.isArray(civitaiResources)) meta.civitaiResources = civitaiResources;
+    for (const [, key, rawValue] of settings.matchAll(/\s*(\w[\w \-/]+):\s*("(?:\\.|[^\\"])+"|[^,]*)(?:,|$)/g)) {
+      const value = rawValue.startsWith('"') ? rawValue.slice(1, -1).replace(/\\(.)/g, '$1') : rawValue.trim();
+      const listed = key.match(/^(Lora|TI|Lyco|Hypernet) hashes$/);
+      if (listed) {
+        // e.g. Lora hashes: "add_detail: bd969cf2cb, other: 0123456789"
+        const prefix = listed[1] === 'TI' ? 'embed' : listed[1].toLowerCase();
+        for (const entry of value.split(',')) {
+          const [name, hash] = entry.split(':').map(part => part.trim());
+          if (name && hash) hashes[`${prefix}:${name}`] = hash;
+        }
+      } else {
+        meta[INFOTEXT_KEYS[key] ?? key] = value;
+      }
+    }
+    meta.hashes = hashes;
+  }
+
+  return meta;
+}
+
+function infotextValue(value: string | number | boolean): string {
+  const text = String(value);
+  return /[,:"]/.test(text) ? JSON.stringify(text) : text;
+}
+
+/**
+ * Renders params as an A1111 infotext block, which A1111-style UIs can paste
+ * into their prompt box to restore every setting.
+ */
+export function toInfotext(params: GenerationParams): string {
+  const checkpoint = params.resources.find(r => r.type === 'checkpoint');
+  const listHashes = (type: string) => params.resources
+    .filter(r => r.type === type && r.name && r.hash)
+    .map(r => `${r.name}: ${r.hash}`)
+    .join(', ');
+
+  const settings: Array<[string, string | number | boolean | undefined]> = [
+    ['Steps', params.steps],
+    ['Sampler', params.sampler],
+    ['CFG scale', params.cfgScale],
+    ['Seed', params.seed],
+    ['Size', params.width && params.height ? `${params.width}x${params.height}` : undefined],
+    ['Model hash', checkpoint?.hash],
+    ['Model', checkpoint?.name],
+    ['Denoising strength', params.denoisingStrength],
+    ['Clip skip', params.clipSkip],
+    ...Object.entries(params.extra),
+    ['Lora hashes', listHashes('lora') || undefined],
+    ['TI hashes', listHashes('embedding') || undefined],
+  ];
+
+  return [
+    params.prompt ?? '',
+    ...(params.negativePrompt ? [`Negative prompt: ${params.negativePrompt}`] : []),
+    settings
+      .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined && entry[1] !== '')
+      .map(([key, value]) => `${key}: ${infotextValue(value)}`)
+      .join(', '),
+  ].join('\n');
+}
+
+// A1111 sampler names to ComfyUI sampler_name; the scheduler comes from the suffix
+const COMFY_SAMPLERS: Record<string, string> = {
+  'Euler': 'euler',
+  'Euler a': 'euler_ancestral',
+  'Heun': 'heun',
+  'DPM2': 'dpm_2',
+  'DPM2 a': 'dpm_2_ancestral',
+  'DPM++ 2S a': 'dpmpp_2s_ancestral',
+  'DPM++ 2M': 'dpmpp_2m',
+  'DPM++ SDE': 'dpmpp_sde',
+  'DPM++ 2M SDE': 'dpmpp_2m_sde',
+  'DPM++ 3M SDE': 'dpmpp_3m_sde',
+  'DPM fast': 'dpm_fast',
+  'DPM adaptive': 'dpm_adaptive',
+  'LMS': 'lms',
+  'DDIM': 'ddim',
+  'UniPC': 'uni_pc',
+  'LCM': 'lcm',
+};
+
+const COMFY_SCHEDULERS: Record<string, string> = {
+  'Karras': 'karras',
+  'Exponential': 'exponential',
+  'SGM Uniform': 'sgm_uniform',
+};
+
+function comfySampler(sampler: string | undefined): { sampler_name: string; scheduler: string } {
+  const match = (sampler ?? '').match(/^(.*?)(?:\s+(karras|exponential|sgm uniform))?$/i)!;
+  const lookup = (table: Record<string, string>, name = '') =>
+    Object.entries(table).find(([key]) => key.toLowerCase() === name.trim().toLowerCase())?.[1];
+  return {
+    sampler_name: lookup(COMFY_SAMPLERS, match[1]) ?? 'euler',
+    scheduler: lookup(COMFY_SCHEDULERS, match[2]) ?? 'normal',
+  };
+}
+
+// The reverse of comfySampler; unknown ComfyUI samplers keep their own name
+function a1111Sampler(samplerName: unknown, scheduler: unknown): string | undefined {
+  if (typeof samplerName !== 'string') return undefined;
+  const name = Object.entries(COMFY_SAMPLERS).find(([, comfy]) => comfy === samplerName)?.[0] ?? samplerName;
+  const suffix = Object.entries(COMFY_SCHEDULERS).find(([, comfy]) => comfy === scheduler)?.[0];
+  return suffix ? `${name} ${suffix}` : name;
+}
+
+export type ComfyNode = { class_type: string; inputs: Record<string, unknown> };
+
+/** What get_image_generation_params returns: the params plus both re-usable renderings */
+export interface GenerationReport {
+  imageId?: number;
+  params: GenerationParams;
+  infotext: string;
+  comfyui: Record<string, ComfyNode>;
+}
+
+/**
+ * Builds a ComfyUI prompt in API format (the JSON `/prompt` accepts): checkpoint,
+ * chained LoRA loaders, optional CLIP skip, text encoders, KSampler and save.
+ * File names are the resource names with `.safetensors` appended.
+ */
+export function toComfyWorkflow(params: GenerationParams): Record<string, ComfyNode> {
+  const nodes: Record<string, ComfyNode> = {};
+  let nextId = 1;
+  const add = (node: ComfyNode) => {
+    const id = String(nextId++);
+    nodes[id] = node;
+    return id;
+  };
+  const fileName = (name: string | undefined, fallback: string) =>
+    name ? (/\.\w+$/.test(name) ? name : `${name}.safetensors`) : fallback;
+
+  const checkpoint = params.resources.find(r => r.type === 'checkpoint');
+  const loader = add({
+    class_type: 'CheckpointLoaderSimple',
+    inputs: { ckpt_name: fileName(checkpoint?.name, 'model.safetensors') },
+  });
+
+  let model: [string, number] = [loader, 0];
+  let clip: [string, number] = [loader, 1];
+  for (const lora of params.resources.filter(r => r.type === 'lora' || r.type === 'lycoris')) {
+    const id = add({
+      class_type: 'LoraLoader',
+      inputs: {
+        lora_name: fileName(lora.name, 'lora.safetensors'),
+        strength_model: lora.weight ?? 1,
+        strength_clip: lora.weight ?? 1,
+        model,
+        clip,
+      },
+    });
+    model = [id, 0];
+    clip = [id, 1];
+  }
+
+  if (params.clipSkip && params.clipSkip > 1) {
+    clip = [add({ class_type: 'CLIPSetLastLayer', inputs: { stop_at_clip_layer: -params.clipSkip, clip } }), 0];
+  }
+
+  // LoRAs are loaded by nodes above, so their prompt tags are dropped
+  const stripTags = (text = '') => text.replace(/<(lora|lyco|hypernet):[^>]*>/g, '').replace(/\s*,\s*(,\s*)+/g, ', ').trim();
+  const positive = add({ class_type: 'CLIPTextEncode', inputs: { text: stripTags(params.prompt), clip } });
+  const negative = add({ class_type: 'CLIPTextEncode', inputs: { text: stripTags(params.negativePrompt), clip } });
+  const latent = add({
+    class_type: 'EmptyLatentImage',
+    inputs: { width: params.width ?? 512, height: params.height ?? 512, batch_size: 1 },
+  });
+  const sampler = add({
+    class_type: 'KSampler',
+    inputs: {
+      seed: params.seed ?? 0,
+      steps: params.steps ?? 20,
+      cfg: params.cfgScale ?? 7,
+      ...comfySampler(params.sampler),
+      denoise: 1,
+      model,
+      positive: [positive, 0],
+      negative: [negative, 0],
+      latent_image: [latent, 0],
+    },
+  });
+  const decode = add({ class_type: 'VAEDecode', inputs: { samples: [sampler, 0], vae: [loader, 2] } });
+  add({ class_type: 'SaveImage', inputs: { filename_prefix: 'civitai', images: [decode, 0] } });
+
+  return nodes;
+}
+
+/**
+ * Looks up each resource on Civitai by model version id or hash. Resources
+ * Civitai doesn't know, or whose hash isn't one it could know, stay unresolved,
+ * and those the content policy withholds are marked as such; other failures
+ * propagate.
+ */
+export async function resolveResources(client: CivitaiClient, params: GenerationParams): Promise<GenerationParams> {
+  const resources: GenerationResource[] = [];
+  for (const resource of params.resources) {
+    try {
+      const version = resource.modelVersionId !== undefined
+        ? await client.getModelVersion(resource.modelVersionId)
+        : resource.hash && isFileHash(resource.hash)
+          ? await client.getModelVersionByHash(resource.hash)
+          : undefined;
+      resources.push(version
+        ? {
+          ...resource,
+          civitai: {
+            modelId: version.modelId,
+            modelName: version.model.name,
+            modelVersionId: version.id,
+            versionName: version.name,
+            type: version.model.type,
+          },
+        }
+        : resource);
+    } catch (error) {
+      if (error instanceof ContentPolicyError) {
+        resources.push({ ...resource, withheld: true });
+        continue;
+      }
+      if (!(error instanceof NotFoundError)) throw error;
+      resources.push(resource);
+    }
+  }
+  return { ...params, resources };
+}
+
+// Widget order of the ComfyUI nodes comfyPromptToMeta reads, for UI-format workflows
+const WORKFLOW_WIDGETS: Record<string, string[]> = {
+  KSampler: ['seed', 'control_after_generate', 'steps', 'cfg', 'sampler_name', 'scheduler', 'denoise'],
+  KSamplerAdvanced: [
+    'add_noise', 'noise_seed', 'control_after_generate', 'steps', 'cfg', 'sampler_name', 'scheduler',
+    'start_at_step', 'end_at_step', 'return_with_leftover_noise',
+  ],
+  CheckpointLoaderSimple: ['ckpt_name'],
+  LoraLoader: ['lora_name', 'strength_model', 'strength_clip'],
+  LoraLoaderModelOnly: ['lora_name', 'strength_model'],
+  CLIPTextEncode: ['text'],
+  CLIPSetLastLayer: ['stop_at_clip_layer'],
+  EmptyLatentImage: ['width', 'height', 'batch_size'],
+};
+
+interface WorkflowNode {
+  id: number;
+  type: string;
+  inputs?: Array<{ name: string; link: number | null }>;
+  widgets_values?: unknown[];
+}
+
+/**
+ * Converts a ComfyUI workflow as saved by the editor (nodes with widget values
+ * and a separate link table) to the API prompt format. Only the widgets of the
+ * node types in WORKFLOW_WIDGETS are named; other nodes keep their links only.
+ */
+export function comfyWorkflowToPrompt(workflow: { nodes?: WorkflowNode[]; links?: unknown[][] }): Record<string, ComfyNode> {
+  const links = new Map((workflow.links ?? []).map(link => [link[0] as number, [String(link[1]), link[2] as number]]));
+  const prompt: Record<string, ComfyNode> = {};
+  for (const node of workflow.nodes ?? []) {
+    const inputs: Record<string, unknown> = {};
+    (WORKFLOW_WIDGETS[node.type] ?? []).forEach((name, index) => {
+      if (Array.isArray(node.widgets_values) && index < node.widgets_values.length) inputs[name] = node.widgets_values[index];
+    });
+    for (const input of node.inputs ?? []) {
+      if (input.link !== null && links.has(input.link)) inputs[input.name] = links.get(input.link);
+    }
+    prompt[String(node.id)] = { class_type: node.type, inputs };
+  }
+  return prompt;
+}
+
+// Strips directories and the extension from a ComfyUI file name, as A1111 shows model names
+function modelName(fileName: unknown): string | undefined {
+  return typeof fileName === 'string' ? fileName.split(/[\\/]/).pop()!.replace(/\.\w+$/, '') : undefined;
+}
+
+/**
+ * Reads the settings of a ComfyUI API prompt into the shape of Civitai image
+ * `meta`, starting from its first KSampler and following its links back to the
+ * text encoders, latent size, LoRA chain and checkpoint. ComfyUI records file
+ * names but no hashes.
+ */
+export function comfyPromptToMeta(prompt: Record<string, ComfyNode>): Record<string, unknown> {
+  const node = (link: unknown) =>
+    Array.isArray(link) ? prompt[String(link[0])] : undefined;
+  const samplerEntry = Object.entries(prompt)
+    .filter(([, n]) => n?.class_type === 'KSampler' || n?.class_type === 'KSamplerAdvanced')
+    .sort(([a], [b]) => Number(a) - Number(b))[0];
+  const meta: Record<string, unknown> = {};
+  if (!samplerEntry) return meta;
+  const sampler = samplerEntry[1].inputs;
+
+  // Conditioning may pass through other nodes (ConditioningCombine, ...) on its way from the encoder
+  const textOf = (link: unknown): string | undefined => {
+    for (let current = node(link), hops = 0; current && hops < 10; hops++) {
+      if (typeof current.inputs.text === 'string') return current.inputs.text;
+      current = node(current.inputs.conditioning ?? current.inputs.conditioning_1);
+    }
+    return undefined;
+  };
+
+  meta.prompt = textOf(sampler.positive);
+  meta.negativePrompt = textOf(sampler.negative);
+  meta.seed = sampler.seed ?? sampler.noise_seed;
+  meta.steps = sampler.steps;
+  meta.cfgScale = sampler.cfg;
+  meta.sampler = a1111Sampler(sampler.sampler_name, sampler.scheduler);
+  if (typeof sampler.denoise === 'number' && sampler.denoise !== 1) {
+    meta['Denoising strength'] = sampler.denoise;
+  }
+
+  const latent = node(sampler.latent_image);
+  if (latent?.class_type === 'EmptyLatentImage') {
+    meta.Size = `${latent.inputs.width}x${latent.inputs.height}`;
+  }
+
+  const resources: Array<Record<string, unknown>> = [];
+  for (let current = node(sampler.model), hops = 0; current && hops < 50; hops++) {
+    if (current.class_type.startsWith('LoraLoader')) {
+      resources.unshift({ type: 'lora', name: modelName(current.inputs.lora_name), weight: current.inputs.strength_model });
+    } else if (current.class_type.startsWith('CheckpointLoader')) {
+      meta.Model = modelName(current.inputs.ckpt_name);
+      break;
+    }
+    current = node(current.inputs.model);
+  }
+  meta.resources = resources;
+
+  const clipSkip = Object.values(prompt).find(n => n?.class_type === 'CLIPSetLastLayer');
+  if (typeof clipSkip?.inputs.stop_at_clip_layer === 'number') {
+    meta['Clip skip'] = -clipSkip.inputs.stop_at_clip_layer;
+  }
+
+  return Object.fromEntries(Object.entries(meta).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,230 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { CivitaiClient } from './civitai-client.js';
+import { Config, clientOptionsFromConfig, serverOptionsFromConfig } from './config.js';
+import { TokenBucket } from './rate-limit.js';
+import { logError, registerSecret } from './secrets.js';
+import { CivitaiMCPServer } from './server.js';
+
+export interface HttpTransportOptions {
+  /** Port to listen on (default 3000; 0 picks a free one) */
+  port?: number;
+  /** Interface to bind (default 127.0.0.1) */
+  host?: string;
+  /** Bearer tokens callers must present; anyone may connect when empty */
+  authTokens?: string[];
+  /** Use the caller's own Civitai key from the `X-Civitai-Api-Key` header when present */
+  allowCallerKeys?: boolean;
+  /** Civitai key for callers that bring none */
+  apiKey?: string;
+  /** Browser origins allowed to connect, or `*` for any; no CORS headers are sent when empty */
+  corsOrigins?: string[];
+  /**
+   * Builds the MCP server for one SSE session with the caller's (or the shared) key;
+   * `callerKey` tells which. Sessions should share a cache and rate limit through
+   * the clients they are given.
+   */
+  createSession: (apiKey: string | undefined, callerKey: boolean) => CivitaiMCPServer;
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  server: CivitaiMCPServer;
+  /** Bearer token the session was opened with; its messages must carry the same one */
+  token?: string;
+}
+
+export const CALLER_KEY_HEADER = 'x-civitai-api-key';
+
+/**
+ * Serves MCP over HTTP with the SSE transport: `GET /sse` opens a session,
+ * `POST /messages?sessionId=...` delivers the caller's messages to it and
+ * `GET /health` reports liveness without authentication.
+ */
+export class HttpTransport {
+  private httpServer: Server;
+  private sessions = new Map<string, Session>();
+
+  constructor(private options: HttpTransportOptions) {
+    options.authTokens?.forEach(registerSecret);
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logError('HTTP transport error', error);
+        if (!res.headersSent) {
+          sendJson(res, 500, { code: 'INTERNAL_ERROR', message: 'Internal server error' });
+        }
+      });
+    });
+  }
+
+  /**
+   * Starts listening and resolves to the server's base URL. A session is built
+   * first, so settings no session can be built with (an unknown tool, say) fail
+   * here instead of on every connection.
+   */
+  async listen(): Promise<string> {
+    await this.options.createSession(this.options.apiKey, false).close();
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port ?? 3000, this.options.host ?? '127.0.0.1', () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    const { address, port } = this.httpServer.address() as AddressInfo;
+    return `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+  }
+
+  /** Number of open SSE sessions */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async close() {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close()));
+    await new Promise<void>(resolve => {
+      this.httpServer.close(() => resolve());
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    this.applyCors(req, res);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (url.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: this.sessions.size });
+      return;
+    }
+    if (url.pathname !== '/sse' && url.pathname !== '/messages') {
+      sendJson(res, 404, { code: 'NOT_FOUND', message: `No route for ${url.pathname}` });
+      return;
+    }
+
+    const token = bearerToken(req);
+    if (!this.authorized(token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { code: 'UNAUTHORIZED', message: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      await this.openSession(req, res, token);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await this.postMessage(req, res, url.searchParams.get('sessionId'), token);
+    } else {
+      sendJson(res, 405, { code: 'METHOD_NOT_ALLOWED', message: `${req.method} is not allowed on ${url.pathname}` });
+    }
+  }
+
+  private async openSession(req: IncomingMessage, res: ServerResponse, token: string | undefined) {
+    const callerKey = header(req, CALLER_KEY_HEADER);
+    // Masked for as long as the session lasts, even when the shared key is used instead
+    const releaseCallerKey = registerSecret(callerKey);
+    const ownKey = Boolean(this.options.allowCallerKeys && callerKey);
+    const apiKey = ownKey ? callerKey : this.options.apiKey;
+
+    const transport = new SSEServerTransport('/messages', res);
+    const server = this.options.createSession(apiKey, ownKey);
+    this.sessions.set(transport.sessionId, { transport, server, token });
+    res.on('close', () => {
+      const closed = this.sessions.delete(transport.sessionId) ? server.close() : Promise.resolve();
+      closed.catch(error => logError('Error closing session', error)).finally(releaseCallerKey);
+    });
+    await server.connect(transport);
+  }
+
+  private async postMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+    token: string | undefined
+  ) {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session) {
+      sendJson(res, 404, { code: 'NOT_FOUND', message: `Unknown session: ${sessionId ?? '(none)'}` });
+      return;
+    }
+    // Knowing a session ID is not enough to talk to it
+    if (session.token !== undefined && (token === undefined || !tokensEqual(session.token, token))) {
+      sendJson(res, 403, { code: 'FORBIDDEN', message: 'The session belongs to another caller' });
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  private authorized(token: string | undefined): boolean {
+    const tokens = this.options.authTokens ?? [];
+    if (tokens.length === 0) return true;
+    return token !== undefined && tokens.some(allowed => tokensEqual(allowed, token));
+  }
+
+  private applyCors(req: IncomingMessage, res: ServerResponse) {
+    const origins = this.options.corsOrigins ?? [];
+    const origin = header(req, 'origin');
+    if (origins.includes('*')) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (origin && origins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    } else {
+      return;
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', `Authorization, Content-Type, ${CALLER_KEY_HEADER}`);
+  }
+}
+
+/**
+ * Builds the HTTP transport from the configuration. Every session gets its own
+ * client, but all of them share one response cache and one rate limit. Tokenized
+ * download links are only handed out to callers who brought their own key: on the
+ * shared key they would give every caller the operator's key.
+ */
+export function httpTransportFromConfig(config: Config): HttpTransport {
+  const shared = {
+    ...clientOptionsFromConfig(config),
+    rateLimit: new TokenBucket(config.rateLimit.requestsPerSecond, config.rateLimit.burst),
+  };
+  const serverOptions = serverOptionsFromConfig(config);
+
+  return new HttpTransport({
+    port: config.http.port,
+    host: config.http.host,
+    authTokens: config.http.authTokens,
+    allowCallerKeys: config.http.callerKeys,
+    apiKey: config.apiKey,
+    corsOrigins: config.http.corsOrigins,
+    createSession: (apiKey, callerKey) => new CivitaiMCPServer(new CivitaiClient(apiKey, shared), {
+      ...serverOptions,
+      allowTokenizedDownloadUrls: serverOptions.allowTokenizedDownloadUrls && callerKey,
+    }),
+  });
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+function bearerToken(req: IncomingMessage): string | undefined {
+  return /^Bearer\s+(.+)$/i.exec(header(req, 'authorization') ?? '')?.[1];
+}
+
+/** Constant-time comparison; hashing first hides the length of the expected token */
+function tokensEqual(expected: string, actual: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(expected), digest(actual));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
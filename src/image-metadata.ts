@@ -0,0 +1,339 @@
+import { FileHandle, open } from 'node:fs/promises';
+import { inflateSync } from 'node:zlib';
+import { CivitaiClient } from './civitai-client.js';
+import { InvalidArgumentsError, NotFoundError } from './errors.js';
+import {
+  ComfyNode,
+  GenerationReport,
+  comfyPromptToMeta,
+  comfyWorkflowToPrompt,
+  fromCivitaiMeta,
+  infotextToMeta,
+  resolveResources,
+  toComfyWorkflow,
+  toInfotext,
+} from './generation-params.js';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export interface EmbeddedMetadata {
+  format: ImageFormat;
+  /** PNG text chunks by keyword, plus `UserComment`, `ImageDescription` and `Comment` from EXIF/JPEG */
+  text: Record<string, string>;
+}
+
+export interface LocalImageReport extends GenerationReport {
+  path: string;
+  format: ImageFormat;
+  /** `a1111`: a `parameters`-style text block; `comfyui`: a ComfyUI prompt or workflow graph */
+  source: 'a1111' | 'comfyui';
+  /** The embedded settings in the shape of Civitai image `meta` */
+  meta: Record<string, unknown>;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// EXIF tags carrying generation text
+const EXIF_IMAGE_DESCRIPTION = 0x010e;
+const EXIF_IFD_POINTER = 0x8769;
+const EXIF_USER_COMMENT = 0x9286;
+
+/** Images larger than this are refused before anything is read */
+export const MAX_IMAGE_BYTES = 64 * 1024 * 1024;
+
+// PNG chunks that can carry generation text
+const PNG_TEXT_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt']);
+
+// Compressed text chunks inflating past this are skipped, so a small file can't exhaust memory
+const MAX_INFLATED_TEXT_BYTES = 1024 * 1024;
+
+/**
+ * Reads the text metadata embedded in a PNG, JPEG or WebP file. Only the
+ * metadata chunks are read; pixel data is skipped over.
+ */
+export async function readEmbeddedMetadata(path: string, maxBytes = MAX_IMAGE_BYTES): Promise<EmbeddedMetadata> {
+  let file: FileHandle;
+  try {
+    file = await open(path, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new NotFoundError(`No such file: ${path}`, { path });
+    }
+    throw error;
+  }
+
+  try {
+    const stats = await file.stat();
+    if (!stats.isFile()) {
+      throw new InvalidArgumentsError(`Not a file: ${path}`, { path });
+    }
+    if (stats.size > maxBytes) {
+      throw new InvalidArgumentsError(
+        `Image is too large to inspect (${stats.size} bytes, limit ${maxBytes})`,
+        { path, size: stats.size, maxBytes }
+      );
+    }
+    return parseEmbeddedMetadata(await readMetadataChunks(file, stats.size));
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Copies an image's signature and metadata chunks into a buffer that
+ * parseEmbeddedMetadata reads like the whole file.
+ */
+async function readMetadataChunks(file: FileHandle, size: number): Promise<Buffer> {
+  const read = async (position: number, length: number) => {
+    const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+    return buffer.subarray(0, bytesRead);
+  };
+
+  const head = await read(0, 12);
+  const parts = [head];
+
+  if (head.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    parts[0] = head.subarray(0, 8);
+    for (let offset = 8; offset + 8 <= size;) {
+      const header = await read(offset, 8);
+      const length = header.readUInt32BE(0);
+      const type = header.toString('latin1', 4, 8);
+      if (type === 'IEND') break;
+      if (PNG_TEXT_CHUNKS.has(type)) parts.push(await read(offset, 12 + length));
+      offset += 12 + length;
+    }
+  } else if (head[0] === 0xff && head[1] === 0xd8) {
+    parts[0] = head.subarray(0, 2);
+    for (let offset = 2; offset + 4 <= size;) {
+      const header = await read(offset, 4);
+      // Start of scan or end of image: no more metadata segments
+      if (header[0] !== 0xff || header[1] === 0xda || header[1] === 0xd9) break;
+      const length = header.readUInt16BE(2);
+      if (header[1] === 0xe1 || header[1] === 0xfe) parts.push(await read(offset, 2 + length));
+      offset += 2 + length;
+    }
+  } else if (head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP') {
+    for (let offset = 12; offset + 8 <= size;) {
+      const header = await read(offset, 8);
+      const length = header.readUInt32LE(4);
+      if (header.toString('latin1', 0, 4) === 'EXIF') {
+        parts.push(await read(offset, 8 + length));
+        break;
+      }
+      offset += 8 + length + (length % 2);
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+export function parseEmbeddedMetadata(buffer: Buffer): EmbeddedMetadata {
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return { format: 'png', text: readPngText(buffer) };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return { format: 'jpeg', text: readJpegText(buffer) };
+  }
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return { format: 'webp', text: readWebpText(buffer) };
+  }
+  throw new InvalidArgumentsError('Not a PNG, JPEG or WebP image');
+}
+
+function readPngText(buffer: Buffer): Record<string, string> {
+  const text: Record<string, string> = {};
+  for (let offset = 8; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    const keywordEnd = data.indexOf(0);
+    if (type === 'IEND') break;
+    if (keywordEnd === -1) continue;
+    const keyword = data.toString('latin1', 0, keywordEnd);
+    try {
+      if (type === 'tEXt') {
+        text[keyword] = data.toString('latin1', keywordEnd + 1);
+      } else if (type === 'zTXt') {
+        text[keyword] = inflateSync(data.subarray(keywordEnd + 2), { maxOutputLength: MAX_INFLATED_TEXT_BYTES }).toString('latin1');
+      } else if (type === 'iTXt') {
+        // keyword, compression flag and method, language tag, translated keyword, text
+        const compressed = data[keywordEnd + 1] === 1;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        const value = data.subarray(translatedEnd + 1);
+        text[keyword] = (compressed ? inflateSync(value, { maxOutputLength: MAX_INFLATED_TEXT_BYTES }) : value).toString('utf8');
+      }
+    } catch {
+      // A corrupt or oversized compressed chunk only loses that chunk
+    }
+  }
+  return text;
+}
+
+function readJpegText(buffer: Buffer): Record<string, string> {
+  const text: Record<string, string> = {};
+  for (let offset = 2; offset + 4 <= buffer.length && buffer[offset] === 0xff;) {
+    const marker = buffer[offset + 1];
+    // Start of scan or end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset + 4, offset + 2 + length);
+    offset += 2 + length;
+
+    if (marker === 0xe1 && segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+      Object.assign(text, readExifText(segment.subarray(6)));
+    } else if (marker === 0xfe) {
+      text.Comment = segment.toString('utf8');
+    }
+  }
+  return text;
+}
+
+function readWebpText(buffer: Buffer): Record<string, string> {
+  for (let offset = 12; offset + 8 <= buffer.length;) {
+    const type = buffer.toString('latin1', offset, offset + 4);
+    const length = buffer.readUInt32LE(offset + 4);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 8 + length + (length % 2);
+
+    if (type === 'EXIF') {
+      if (data.length < length) throw unreadable('the WebP EXIF chunk is truncated');
+      return readExifText(data.toString('latin1', 0, 6) === 'Exif\0\0' ? data.subarray(6) : data);
+    }
+  }
+  return {};
+}
+
+function unreadable(reason: string): InvalidArgumentsError {
+  return new InvalidArgumentsError(`Unreadable metadata: ${reason}`);
+}
+
+/**
+ * Extracts the text tags from a TIFF-structured EXIF block. Every offset is
+ * checked against the block, so a malformed file is reported rather than read
+ * out of bounds.
+ */
+function readExifText(tiff: Buffer): Record<string, string> {
+  const text: Record<string, string> = {};
+  if (tiff.length < 8) return text;
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') throw unreadable('EXIF data has no TIFF header');
+  const little = byteOrder === 'II';
+  const within = (at: number, bytes: number) => {
+    if (at + bytes > tiff.length) throw unreadable(`EXIF offset ${at} is past the end of the data`);
+    return at;
+  };
+  const u16 = (at: number) => (little ? tiff.readUInt16LE(within(at, 2)) : tiff.readUInt16BE(within(at, 2)));
+  const u32 = (at: number) => (little ? tiff.readUInt32LE(within(at, 4)) : tiff.readUInt32BE(within(at, 4)));
+
+  // Tag -> [offset, byte length] of its value
+  const readIfd = (start: number) => {
+    const entries = new Map<number, [number, number]>();
+    for (let i = 0, count = u16(start); i < count; i++) {
+      const entry = start + 2 + i * 12;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      // BYTE, ASCII and UNDEFINED are one byte per value; LONG is four
+      const size = u32(entry + 4) * (type === 4 ? 4 : 1);
+      const valueAt = size <= 4 ? entry + 8 : u32(entry + 8);
+      entries.set(tag, [valueAt, size]);
+    }
+    return entries;
+  };
+
+  const value = (entry: [number, number] | undefined) =>
+    entry && tiff.subarray(within(entry[0], entry[1]), entry[0] + entry[1]);
+
+  const ifd0 = readIfd(u32(4));
+  const description = value(ifd0.get(EXIF_IMAGE_DESCRIPTION));
+  if (description?.length) {
+    text.ImageDescription = description.toString('utf8').replace(/\0+$/, '');
+  }
+  const exifIfd = ifd0.get(EXIF_IFD_POINTER);
+  const comment = exifIfd && value(readIfd(u32(exifIfd[0])).get(EXIF_USER_COMMENT));
+  if (comment && comment.length > 8) {
+    text.UserComment = decodeUserComment(comment);
+  }
+  return text;
+}
+
+/**
+ * UserComment starts with an 8-byte character code. A1111 writes `UNICODE`
+ * (UTF-16, big-endian from piexif, but not every tool agrees), others `ASCII`.
+ */
+function decodeUserComment(comment: Buffer): string {
+  const code = comment.toString('latin1', 0, 8).replace(/\0+$/, '');
+  const body = comment.subarray(8);
+  if (code !== 'UNICODE') {
+    return body.toString('utf8').replace(/\0+$/, '');
+  }
+
+  let utf16 = Buffer.from(body.subarray(0, body.length - (body.length % 2)));
+  // Big-endian ASCII-range text has its zero bytes first
+  const bigEndian = utf16[0] === 0xfe || (utf16[0] === 0 && utf16[1] !== 0);
+  if (bigEndian) utf16.swap16();
+  if (utf16[0] === 0xff && utf16[1] === 0xfe) utf16 = utf16.subarray(2);
+  return utf16.toString('utf16le').replace(/\0+$/, '');
+}
+
+// Where each kind of generator leaves its settings
+function findSettings(text: Record<string, string>): Pick<LocalImageReport, 'source' | 'meta'> | undefined {
+  const json = (value: string | undefined) => {
+    try {
+      const parsed = value === undefined ? undefined : JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  if (text.parameters) {
+    return { source: 'a1111', meta: infotextToMeta(text.parameters) };
+  }
+  const prompt = json(text.prompt) as Record<string, ComfyNode> | undefined;
+  const workflow = json(text.workflow);
+  const comfyPrompt = prompt ?? (workflow ? comfyWorkflowToPrompt(workflow) : undefined);
+  if (comfyPrompt) {
+    const meta = comfyPromptToMeta(comfyPrompt);
+    if (Object.keys(meta).length > 0) return { source: 'comfyui', meta };
+  }
+  for (const key of ['UserComment', 'ImageDescription', 'Comment']) {
+    if (/^\s*Steps:/m.test(text[key] ?? '')) {
+      return { source: 'a1111', meta: infotextToMeta(text[key]) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the generation settings embedded in a local image (A1111 parameters,
+ * a ComfyUI prompt or workflow, or EXIF UserComment) and, unless disabled,
+ * looks up every resource hash found on Civitai.
+ */
+export async function inspectLocalImage(
+  client: CivitaiClient,
+  path: string,
+  options: { resolveResources?: boolean } = {}
+): Promise<LocalImageReport> {
+  const { format, text } = await readEmbeddedMetadata(path);
+  const settings = findSettings(text);
+  if (!settings) {
+    throw new NotFoundError(`No generation metadata found in ${path}`, { path, keys: Object.keys(text) });
+  }
+
+  let params = fromCivitaiMeta(settings.meta);
+  if (options.resolveResources !== false) {
+    params = await resolveResources(client, params);
+  }
+
+  return {
+    path,
+    format,
+    ...settings,
+    params,
+    infotext: toInfotext(params),
+    comfyui: toComfyWorkflow(params),
+  };
+}
@@ -0,0 +1,141 @@
+import { CivitaiClient } from './civitai-client.js';
+import { NotFoundError, toCivitaiError } from './errors.js';
+import { modelLookup } from './model-lookup.js';
+import { Model } from './types.js';
+
+export type Permission = 'allowed' | 'not-allowed' | 'unknown';
+
+export interface LicensePermissions {
+  /** Selling images generated with the model */
+  sellImages: Permission;
+  /** Running the model on paid generation services; `civitai-only` allows Civitai's own generator only */
+  generationServices: Permission | 'civitai-only';
+  /** Selling the model itself or merges of it */
+  sellModel: Permission;
+  /** Sharing merges and other derivatives */
+  shareMerges: Permission;
+  /** Giving those derivatives different permissions */
+  differentLicense: Permission;
+  /** Using or sharing the model without crediting its creator */
+  noCredit: Permission;
+}
+
+export interface LicenseEntry {
+  /** `model <id>`, `version <id>` or `hash <hash>`, as it was asked about */
+  input: string;
+  status: 'ok' | 'not-found' | 'error';
+  error?: string;
+  modelId?: number;
+  modelName?: string;
+  type?: string;
+  creator?: string;
+  url?: string;
+  versionId?: number;
+  versionName?: string;
+  /** Commercial uses as Civitai lists them: Image, RentCivit, Rent, Sell */
+  commercialUse?: string[];
+  permissions?: LicensePermissions;
+}
+
+export interface LicenseReport {
+  entries: LicenseEntry[];
+  /** Per permission, how many of the resolved models allow it */
+  summary: Record<keyof LicensePermissions, { allowed: number; total: number }>;
+}
+
+export interface LicenseTargets {
+  modelIds?: number[];
+  modelVersionIds?: number[];
+  hashes?: string[];
+}
+
+// Older responses give a single value, each level implying the ones before it
+const COMMERCIAL_LEVELS = ['Image', 'RentCivit', 'Rent', 'Sell'];
+
+/** A model's commercial uses as a list; undefined when Civitai didn't say */
+export function commercialUses(model: Model): string[] | undefined {
+  const value = model.allowCommercialUse;
+  if (value === undefined) return undefined;
+  if (Array.isArray(value)) return value.filter(use => use !== 'None');
+  return COMMERCIAL_LEVELS.slice(0, COMMERCIAL_LEVELS.indexOf(value) + 1);
+}
+
+function flag(value: boolean | undefined): Permission {
+  return value === undefined ? 'unknown' : value ? 'allowed' : 'not-allowed';
+}
+
+export function licensePermissions(model: Model): LicensePermissions {
+  const uses = commercialUses(model);
+  const has = (use: string) => flag(uses && uses.includes(use));
+  return {
+    sellImages: has('Image'),
+    generationServices: uses?.includes('Rent') ? 'allowed' : uses?.includes('RentCivit') ? 'civitai-only' : has('Rent'),
+    sellModel: has('Sell'),
+    shareMerges: flag(model.allowDerivatives),
+    differentLicense: flag(model.allowDifferentLicense),
+    noCredit: flag(model.allowNoCredit),
+  };
+}
+
+type Lookup = [input: string, lookup: () => Promise<{ modelId: number; version?: { id: number; name: string } }>];
+
+/**
+ * Reports, per model, version or file hash, what the creator's Civitai license
+ * permissions allow. Permissions are set per model, so versions and hashes are
+ * reported under their parent model.
+ */
+export async function licenseReport(client: CivitaiClient, targets: LicenseTargets): Promise<LicenseReport> {
+  const modelFor = modelLookup(client);
+  const viaVersion = (fetch: () => Promise<{ id: number; name: string; modelId: number }>) => async () => {
+    const version = await fetch();
+    return { modelId: version.modelId, version };
+  };
+
+  const lookups: Lookup[] = [
+    ...(targets.modelIds ?? []).map((id): Lookup => [`model ${id}`, async () => ({ modelId: id })]),
+    ...(targets.modelVersionIds ?? []).map((id): Lookup => [`version ${id}`, viaVersion(() => client.getModelVersion(id))]),
+    ...(targets.hashes ?? []).map((hash): Lookup => [`hash ${hash}`, viaVersion(() => client.getModelVersionByHash(hash))]),
+  ];
+
+  const entries = await Promise.all(lookups.map(async ([input, lookup]): Promise<LicenseEntry> => {
+    try {
+      const { modelId, version } = await lookup();
+      const model = await modelFor(modelId);
+      return {
+        input,
+        status: 'ok',
+        modelId: model.id,
+        modelName: model.name,
+        type: model.type,
+        creator: model.creator.username,
+        url: client.getModelPageUrl(model.id),
+        versionId: version?.id,
+        versionName: version?.name,
+        commercialUse: commercialUses(model),
+        permissions: licensePermissions(model),
+      };
+    } catch (error) {
+      return error instanceof NotFoundError
+        ? { input, status: 'not-found' }
+        : { input, status: 'error', error: toCivitaiError(error).message };
+    }
+  }));
+
+  const resolved = entries.filter(entry => entry.permissions);
+  const count = (key: keyof LicensePermissions) => ({
+    allowed: resolved.filter(entry => entry.permissions![key] === 'allowed').length,
+    total: resolved.length,
+  });
+
+  return {
+    entries,
+    summary: {
+      sellImages: count('sellImages'),
+      generationServices: count('generationServices'),
+      sellModel: count('sellModel'),
+      shareMerges: count('shareMerges'),
+      differentLicense: count('differentLicense'),
+      noCredit: count('noCredit'),
+    },
+  };
+}
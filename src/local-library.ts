@@ -0,0 +1,215 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, Stats } from 'node:fs';
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, relative, resolve, sep } from 'node:path';
+import { CivitaiClient } from './civitai-client.js';
+import { InvalidArgumentsError, NotFoundError, toCivitaiError } from './errors.js';
+
+/** Extensions treated as model weights when scanning a library */
+export const MODEL_FILE_EXTENSIONS = ['.safetensors', '.ckpt', '.pt', '.pth', '.bin'];
+
+/** Default hash cache location, relative to the models directory */
+export const HASH_CACHE_FILE = '.civitai-hashes.json';
+
+/**
+ * Streams a file through SHA256 and returns the uppercase hex digest,
+ * the form Civitai lists under `hashes.SHA256`.
+ */
+export function hashFile(path: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(path)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolvePromise(hash.digest('hex').toUpperCase()));
+  });
+}
+
+/** AutoV2 is the first 10 hex characters of the SHA256 */
+export function autoV2(sha256: string): string {
+  return sha256.slice(0, 10).toUpperCase();
+}
+
+export interface FileHashes {
+  sha256: string;
+  autoV2: string;
+}
+
+interface HashCacheEntry {
+  size: number;
+  mtimeMs: number;
+  sha256: string;
+}
+
+/**
+ * Remembers file hashes by absolute path so rescans only hash files whose size
+ * or mtime changed. Persisted as one JSON file when `file` is given.
+ */
+export class HashCache {
+  private entries?: Map<string, HashCacheEntry>;
+  private dirty = false;
+
+  constructor(private file?: string) {}
+
+  private async load(): Promise<Map<string, HashCacheEntry>> {
+    if (!this.entries) {
+      this.entries = new Map();
+      if (this.file) {
+        try {
+          const stored = JSON.parse(await readFile(this.file, 'utf8'));
+          for (const [path, entry] of Object.entries(stored)) {
+            this.entries.set(path, entry as HashCacheEntry);
+          }
+        } catch {
+          // Missing or corrupt cache; start empty and rehash
+        }
+      }
+    }
+    return this.entries;
+  }
+
+  async hashesFor(path: string, known?: Stats): Promise<FileHashes> {
+    const stats = known ?? await stat(path);
+    const entries = await this.load();
+    const cached = entries.get(path);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+      return { sha256: cached.sha256, autoV2: autoV2(cached.sha256) };
+    }
+
+    const sha256 = await hashFile(path);
+    entries.set(path, { size: stats.size, mtimeMs: stats.mtimeMs, sha256 });
+    this.dirty = true;
+    return { sha256, autoV2: autoV2(sha256) };
+  }
+
+  /** Writes the cache back to disk if any file was hashed since the last save */
+  async save() {
+    if (!this.file || !this.dirty || !this.entries) return;
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(this.file, JSON.stringify(Object.fromEntries(this.entries), null, 2));
+    this.dirty = false;
+  }
+}
+
+/**
+ * Lists model files under `root` in a stable order, skipping dotfiles and dot-directories.
+ */
+export async function findModelFiles(root: string, recursive = true): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(root, { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith('.')) continue;
+    const path = join(root, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) files.push(...await findModelFiles(path, recursive));
+    } else if (entry.isFile() && MODEL_FILE_EXTENSIONS.includes(extname(entry.name).toLowerCase())) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Resolves `subpath` inside `root`, refusing anything that escapes it.
+ * `label` names the root in the error.
+ */
+export function resolveInside(root: string, subpath = '.', label = 'models directory'): string {
+  const base = resolve(root);
+  const target = resolve(base, subpath);
+  if (target !== base && !target.startsWith(base + sep)) {
+    throw new InvalidArgumentsError(`Path must stay inside the ${label}: ${subpath}`, { path: subpath });
+  }
+  return target;
+}
+
+export interface LocalModelMatch {
+  modelId: number;
+  modelName: string;
+  versionId: number;
+  versionName: string;
+  type: string;
+  baseModel?: string;
+  trainedWords: string[];
+}
+
+export interface LocalModelFile {
+  /** Path relative to the scanned directory */
+  path: string;
+  sizeKb: number;
+  sha256: string;
+  autoV2: string;
+  status: 'identified' | 'unknown' | 'error';
+  match?: LocalModelMatch;
+  error?: string;
+}
+
+export interface LocalScanReport {
+  directory: string;
+  files: LocalModelFile[];
+  identified: number;
+  unknown: number;
+  errors: number;
+}
+
+export interface ScanOptions {
+  recursive?: boolean;
+  hashCache?: HashCache;
+}
+
+/**
+ * Hashes every model file under `directory` and identifies it on Civitai by SHA256.
+ * Files Civitai does not know are reported as unknown; any other lookup failure
+ * is recorded on the file so one bad request doesn't abort the scan.
+ */
+export async function scanLocalModels(
+  client: CivitaiClient,
+  directory: string,
+  options: ScanOptions = {}
+): Promise<LocalScanReport> {
+  const hashCache = options.hashCache ?? new HashCache();
+  const files: LocalModelFile[] = [];
+
+  try {
+    for (const path of await findModelFiles(directory, options.recursive ?? true)) {
+      const stats = await stat(path);
+      const hashes = await hashCache.hashesFor(path, stats);
+      const file: LocalModelFile = {
+        path: relative(directory, path),
+        sizeKb: Math.round((stats.size / 1024) * 100) / 100,
+        ...hashes,
+        status: 'unknown',
+      };
+
+      try {
+        const version = await client.getModelVersionByHash(hashes.sha256);
+        file.status = 'identified';
+        file.match = {
+          modelId: version.modelId,
+          modelName: version.model.name,
+          versionId: version.id,
+          versionName: version.name,
+          type: version.model.type,
+          baseModel: version.baseModel,
+          trainedWords: version.trainedWords,
+        };
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          file.status = 'error';
+          file.error = toCivitaiError(error).message;
+        }
+      }
+      files.push(file);
+    }
+  } finally {
+    await hashCache.save();
+  }
+
+  return {
+    directory,
+    files,
+    identified: files.filter(f => f.status === 'identified').length,
+    unknown: files.filter(f => f.status === 'unknown').length,
+    errors: files.filter(f => f.status === 'error').length,
+  };
+}
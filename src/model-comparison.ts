@@ -0,0 +1,182 @@
+import { Compatibility, baseModelCompatibility } from './base-models.js';
+import { CivitaiClient } from './civitai-client.js';
+import { ContentPolicyError, NotFoundError, toCivitaiError } from './errors.js';
+import { commercialUses } from './license-report.js';
+import { modelLookup } from './model-lookup.js';
+import { Model, ModelFile } from './types.js';
+
+export interface ComparedFile {
+  name?: string;
+  sizeKb?: number;
+  fp?: string;
+  format?: string;
+  pickleScan?: string;
+  virusScan?: string;
+}
+
+export interface ComparedModel {
+  /** `model <id>` or `version <id>`, as it was asked about */
+  input: string;
+  modelId: number;
+  modelName: string;
+  type: string;
+  creator?: string;
+  versionId?: number;
+  versionName?: string;
+  baseModel?: string;
+  /** Publish date of the compared version: the latest one for model inputs */
+  versionDate?: string;
+  downloads?: number;
+  rating?: number;
+  ratingCount?: number;
+  favorites?: number;
+  files: ComparedFile[];
+  permissions: {
+    allowNoCredit?: boolean;
+    allowCommercialUse?: string[];
+    allowDerivatives?: boolean;
+    allowDifferentLicense?: boolean;
+  };
+  trainedWords: string[];
+}
+
+export interface BaseModelConflict {
+  inputs: [string, string];
+  baseModels: [string, string];
+  compatibility: Exclude<Compatibility, 'compatible' | 'unknown'>;
+}
+
+/** A requested model or version that could not be fetched, and why */
+export interface UnavailableModel {
+  input: string;
+  status: 'not-found' | 'withheld' | 'error';
+  error?: string;
+}
+
+export interface ModelComparison {
+  models: ComparedModel[];
+  /** Inputs left out of the comparison */
+  unavailable: UnavailableModel[];
+  /** Distinct base models among the compared versions */
+  baseModels: string[];
+  /** Pairs of compared models whose base models don't work together */
+  conflicts: BaseModelConflict[];
+}
+
+export interface ComparisonTargets {
+  modelIds?: number[];
+  modelVersionIds?: number[];
+}
+
+function compareFile(file: ModelFile): ComparedFile {
+  return {
+    name: file.name,
+    sizeKb: file.sizeKb,
+    fp: file.metadata?.fp ?? undefined,
+    format: file.metadata?.format ?? undefined,
+    pickleScan: file.pickleScanResult,
+    virusScan: file.virusScanResult,
+  };
+}
+
+function permissions(model: Model): ComparedModel['permissions'] {
+  return {
+    allowNoCredit: model.allowNoCredit,
+    allowCommercialUse: commercialUses(model),
+    allowDerivatives: model.allowDerivatives,
+    allowDifferentLicense: model.allowDifferentLicense,
+  };
+}
+
+function unavailable(input: string, error: unknown): UnavailableModel {
+  if (error instanceof NotFoundError) return { input, status: 'not-found' };
+  const { message } = toCivitaiError(error);
+  return error instanceof ContentPolicyError
+    ? { input, status: 'withheld', error: message }
+    : { input, status: 'error', error: message };
+}
+
+/**
+ * Fetches the given models (compared on their latest version) and model versions
+ * in parallel, and flags every pair whose base models don't work together. Inputs
+ * that can't be fetched are listed as unavailable; the rest are still compared.
+ */
+export async function compareModels(client: CivitaiClient, targets: ComparisonTargets): Promise<ModelComparison> {
+  // Versions need their parent model for favorites and permissions
+  const modelFor = modelLookup(client);
+
+  // One failed lookup leaves that input out rather than failing the comparison
+  const attempt = async (input: string, compare: () => Promise<ComparedModel>) => {
+    try {
+      return await compare();
+    } catch (error) {
+      return unavailable(input, error);
+    }
+  };
+
+  const results = await Promise.all([
+    ...(targets.modelIds ?? []).map(id => attempt(`model ${id}`, async (): Promise<ComparedModel> => {
+      const model = await modelFor(id);
+      const latest = model.modelVersions[0];
+      return {
+        input: `model ${id}`,
+        modelId: model.id,
+        modelName: model.name,
+        type: model.type,
+        creator: model.creator.username,
+        versionId: latest?.id,
+        versionName: latest?.name,
+        baseModel: latest?.baseModel,
+        versionDate: latest?.publishedAt ?? latest?.createdAt,
+        downloads: model.stats?.downloadCount,
+        rating: model.stats?.rating,
+        ratingCount: model.stats?.ratingCount,
+        favorites: model.stats?.favoriteCount,
+        files: (latest?.files ?? []).map(compareFile),
+        permissions: permissions(model),
+        trainedWords: latest?.trainedWords ?? [],
+      };
+    })),
+    ...(targets.modelVersionIds ?? []).map(id => attempt(`version ${id}`, async (): Promise<ComparedModel> => {
+      const version = await client.getModelVersion(id);
+      const model = await modelFor(version.modelId);
+      return {
+        input: `version ${id}`,
+        modelId: version.modelId,
+        modelName: version.model.name,
+        type: version.model.type,
+        creator: model.creator.username,
+        versionId: version.id,
+        versionName: version.name,
+        baseModel: version.baseModel,
+        versionDate: version.publishedAt ?? version.createdAt,
+        downloads: version.stats?.downloadCount,
+        rating: version.stats?.rating,
+        ratingCount: version.stats?.ratingCount,
+        favorites: model.stats?.favoriteCount,
+        files: version.files.map(compareFile),
+        permissions: permissions(model),
+        trainedWords: version.trainedWords ?? [],
+      };
+    })),
+  ]);
+  const compared = results.filter((result): result is ComparedModel => 'files' in result);
+
+  const conflicts: BaseModelConflict[] = [];
+  for (let i = 0; i < compared.length; i++) {
+    for (let j = i + 1; j < compared.length; j++) {
+      const [a, b] = [compared[i], compared[j]];
+      const compatibility = baseModelCompatibility(a.baseModel, b.baseModel);
+      if (compatibility === 'partial' || compatibility === 'incompatible') {
+        conflicts.push({ inputs: [a.input, b.input], baseModels: [a.baseModel!, b.baseModel!], compatibility });
+      }
+    }
+  }
+
+  return {
+    models: compared,
+    unavailable: results.filter((result): result is UnavailableModel => 'status' in result),
+    baseModels: [...new Set(compared.map(model => model.baseModel).filter((base): base is string => !!base))],
+    conflicts,
+  };
+}
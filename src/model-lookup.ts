@@ -0,0 +1,18 @@
+import { CivitaiClient } from './civitai-client.js';
+import { Model } from './types.js';
+
+/** Fetches a model by ID, reusing the request for any earlier lookup of the same model */
+export type ModelLookup = (modelId: number) => Promise<Model>;
+
+/**
+ * Several inputs to one report often share a parent model (versions, hashes,
+ * stack entries). The returned lookup fetches each model once; concurrent
+ * callers share the same request, and its failure.
+ */
+export function modelLookup(client: CivitaiClient): ModelLookup {
+  const models = new Map<number, Promise<Model>>();
+  return id => {
+    if (!models.has(id)) models.set(id, client.getModel(id));
+    return models.get(id)!;
+  };
+}
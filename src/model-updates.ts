@@ -0,0 +1,110 @@
+import { CivitaiClient } from './civitai-client.js';
+import { NotFoundError, toCivitaiError } from './errors.js';
+import { modelLookup } from './model-lookup.js';
+import { Model, ModelVersion } from './types.js';
+
+export interface VersionInfo {
+  id: number;
+  name: string;
+  baseModel?: string;
+  createdAt?: string;
+  trainedWords: string[];
+}
+
+export interface ModelUpdateCheck {
+  /** The hash or version id as it was asked about */
+  input: string;
+  status: 'up-to-date' | 'update-available' | 'not-found' | 'error';
+  modelId?: number;
+  modelName?: string;
+  type?: string;
+  current?: VersionInfo;
+  latest?: VersionInfo;
+  /** How many versions were published after `current` */
+  newerVersions?: number;
+  trainedWords?: { added: string[]; removed: string[] };
+  error?: string;
+}
+
+export interface ModelUpdateReport {
+  checks: ModelUpdateCheck[];
+  updatesAvailable: number;
+}
+
+export interface UpdateTargets {
+  hashes?: string[];
+  modelVersionIds?: number[];
+}
+
+type VersionLookup = [input: string, lookup: () => Promise<{ id: number; modelId: number }>];
+
+/**
+ * Resolves each hash or version id to its parent model and reports whether that
+ * model has versions newer than the one given. Civitai lists `modelVersions`
+ * newest first, so anything before the current version counts as an update.
+ */
+export async function checkModelUpdates(client: CivitaiClient, targets: UpdateTargets): Promise<ModelUpdateReport> {
+  const modelFor = modelLookup(client);
+
+  const lookups: VersionLookup[] = [
+    ...(targets.hashes ?? []).map((hash): VersionLookup => [hash, () => client.getModelVersionByHash(hash)]),
+    ...(targets.modelVersionIds ?? []).map((id): VersionLookup => [String(id), () => client.getModelVersion(id)]),
+  ];
+
+  const checks: ModelUpdateCheck[] = [];
+  for (const [input, lookup] of lookups) {
+    try {
+      const version = await lookup();
+      checks.push(compareVersions(input, await modelFor(version.modelId), version.id));
+    } catch (error) {
+      checks.push(error instanceof NotFoundError
+        ? { input, status: 'not-found' }
+        : { input, status: 'error', error: toCivitaiError(error).message });
+    }
+  }
+
+  return { checks, updatesAvailable: checks.filter(check => check.status === 'update-available').length };
+}
+
+function compareVersions(input: string, model: Model, versionId: number): ModelUpdateCheck {
+  const position = model.modelVersions.findIndex(version => version.id === versionId);
+  const check: ModelUpdateCheck = {
+    input,
+    status: 'up-to-date',
+    modelId: model.id,
+    modelName: model.name,
+    type: model.type,
+  };
+  if (position === -1) {
+    // The version was unpublished from the model; there is nothing to compare against
+    return { ...check, status: 'not-found' };
+  }
+
+  const current = versionInfo(model.modelVersions[position]);
+  if (position === 0) {
+    return { ...check, current, newerVersions: 0 };
+  }
+
+  const latest = versionInfo(model.modelVersions[0]);
+  return {
+    ...check,
+    status: 'update-available',
+    current,
+    latest,
+    newerVersions: position,
+    trainedWords: {
+      added: latest.trainedWords.filter(word => !current.trainedWords.includes(word)),
+      removed: current.trainedWords.filter(word => !latest.trainedWords.includes(word)),
+    },
+  };
+}
+
+function versionInfo(version: ModelVersion): VersionInfo {
+  return {
+    id: version.id,
+    name: version.name,
+    baseModel: version.baseModel,
+    createdAt: version.createdAt,
+    trainedWords: version.trainedWords ?? [],
+  };
+}
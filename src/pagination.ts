@@ -0,0 +1,156 @@
+import { InvalidArgumentsError } from './errors.js';
+
+/** Query parameters that select one page of a list endpoint */
+export interface PageParams {
+  page?: number;
+  cursor?: string | number;
+}
+
+export interface Page<T> {
+  items: T[];
+  metadata: {
+    currentPage?: number;
+    totalPages?: number;
+    totalItems?: number;
+    nextPage?: string;
+    nextCursor?: string | number;
+    /** Items the client's content policy removed from this page */
+    withheld?: number;
+  };
+}
+
+/**
+ * What an opaque tool cursor points at: the page to request next and how many
+ * of its items were already returned (when `maxItems` ended mid-page).
+ */
+interface CursorState {
+  params: PageParams;
+  skip?: number;
+}
+
+/**
+ * Replaces (rather than merges) the page selector in request params, so a page
+ * number never rides along with a cursor.
+ */
+export function withPage<P extends object>(params: P, page: PageParams): P & PageParams {
+  return { ...params, page: page.page, cursor: page.cursor };
+}
+
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (state && typeof state === 'object' && state.params && typeof state.params === 'object') {
+      return state;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidArgumentsError('Invalid cursor; pass back the cursor returned by a previous call', { cursor });
+}
+
+/**
+ * Works out the request for the page after `page`, preferring the API's cursor over page numbers.
+ */
+export function nextPageParams(metadata: Page<unknown>['metadata']): PageParams | undefined {
+  if (metadata.nextCursor !== undefined && metadata.nextCursor !== null && metadata.nextCursor !== '') {
+    return { cursor: metadata.nextCursor };
+  }
+
+  if (metadata.nextPage) {
+    try {
+      const params = new URL(metadata.nextPage).searchParams;
+      if (params.has('cursor')) return { cursor: params.get('cursor')! };
+      if (params.has('page')) return { page: Number(params.get('page')) };
+    } catch {
+      // Malformed nextPage URL; fall back to page arithmetic
+    }
+  }
+
+  if (metadata.currentPage && metadata.totalPages && metadata.currentPage < metadata.totalPages) {
+    return { page: metadata.currentPage + 1 };
+  }
+  return undefined;
+}
+
+/**
+ * An empty page ends a list even if the API offers a next one. A page the content
+ * policy emptied is not empty: the API sent items, so the list goes on.
+ */
+function isEmpty(page: Page<unknown>): boolean {
+  return page.items.length === 0 && !page.metadata.withheld;
+}
+
+/**
+ * Follows nextCursor/nextPage and yields every item until the list ends.
+ */
+export async function* iteratePages<T>(
+  fetchPage: (params: PageParams) => Promise<Page<T>>,
+  start: PageParams = {}
+): AsyncGenerator<T> {
+  let params: PageParams | undefined = start;
+  while (params) {
+    const page = await fetchPage(params);
+    yield* page.items;
+    if (isEmpty(page)) return;
+    params = nextPageParams(page.metadata);
+  }
+}
+
+export interface CollectOptions {
+  /** Opaque cursor from a previous call; takes precedence over `page` */
+  cursor?: string;
+  page?: number;
+  /** Keep fetching pages until this many items are collected; one page when omitted */
+  maxItems?: number;
+}
+
+export interface CollectedPage<T> extends Page<T> {
+  /** Opaque cursor for the next call, absent when the list is exhausted */
+  cursor?: string;
+  /** Items the content policy removed across the fetched pages, when the pages report it */
+  withheld?: number;
+}
+
+/**
+ * Fetches one page, or as many pages as needed to reach `maxItems`, and returns
+ * the items with an opaque cursor that resumes exactly where this call stopped.
+ */
+export async function collectPages<T>(
+  fetchPage: (params: PageParams) => Promise<Page<T>>,
+  options: CollectOptions = {}
+): Promise<CollectedPage<T>> {
+  const start = options.cursor ? decodeCursor(options.cursor) : { params: options.page ? { page: options.page } : {} };
+
+  const items: T[] = [];
+  let params: PageParams | undefined = start.params;
+  let skip = start.skip ?? 0;
+  let metadata: Page<T>['metadata'] = {};
+  let withheld: number | undefined;
+
+  while (params) {
+    const page = await fetchPage(params);
+    metadata = page.metadata;
+    if (page.metadata.withheld !== undefined) withheld = (withheld ?? 0) + page.metadata.withheld;
+    const available = page.items.slice(skip);
+    const wanted = options.maxItems === undefined ? available.length : options.maxItems - items.length;
+    items.push(...available.slice(0, wanted));
+
+    if (wanted < available.length) {
+      // Stopped mid-page: resume on the same page, past what we returned
+      return { items, metadata, withheld, cursor: encodeCursor({ params, skip: skip + wanted }) };
+    }
+
+    const next = isEmpty(page) ? undefined : nextPageParams(page.metadata);
+    if (options.maxItems === undefined || items.length >= options.maxItems || !next) {
+      return { items, metadata, withheld, cursor: next && encodeCursor({ params: next }) };
+    }
+    params = next;
+    skip = 0;
+  }
+
+  return { items, metadata, withheld };
+}
@@ -0,0 +1,65 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { InvalidArgumentsError } from './errors.js';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * A parameterized prompt. `build` pre-fetches whatever the task needs and embeds
+ * it in the messages, so the model can work from the prompt alone.
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build: (args: Record<string, string>) => Promise<GetPromptResult>;
+}
+
+export function definePrompt(definition: PromptDefinition): PromptDefinition {
+  return definition;
+}
+
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  register(...definitions: PromptDefinition[]) {
+    for (const definition of definitions) {
+      if (this.prompts.has(definition.name)) {
+        throw new Error(`Prompt already registered: ${definition.name}`);
+      }
+      this.prompts.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  list(): Prompt[] {
+    return [...this.prompts.values()].map(definition => ({
+      name: definition.name,
+      description: definition.description,
+      arguments: definition.arguments,
+    }));
+  }
+
+  /**
+   * Checks the required arguments are present and builds the prompt.
+   * Callers must check `has(name)` first.
+   */
+  async get(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const definition = this.prompts.get(name)!;
+    const missing = definition.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+    if (missing.length > 0) {
+      throw new InvalidArgumentsError(
+        `Missing arguments for ${name}: ${missing.map(argument => argument.name).join(', ')}`,
+        { missing: missing.map(argument => argument.name) }
+      );
+    }
+    return definition.build(args);
+  }
+}
@@ -0,0 +1,185 @@
+import { CivitaiClient } from './civitai-client.js';
+import { GenerationParams, GenerationResource, fromCivitaiMeta } from './generation-params.js';
+import { Image, ModelVersionResponse } from './types.js';
+
+export interface PromptTemplate {
+  rank: number;
+  prompt: string;
+  negativePrompt?: string;
+  /** Trigger words the sample's prompt lacked; they are prepended to `prompt` */
+  addedTriggerWords: string[];
+  sampler?: string;
+  steps?: number;
+  cfgScale?: number;
+  size?: string;
+  /** Strength this model was used at, when the sample is a LoRA-style resource */
+  weight?: number;
+  source: { imageId?: number; url: string; reactions: number };
+}
+
+export interface NumberRange {
+  min: number;
+  max: number;
+  median: number;
+}
+
+export interface Frequency {
+  value: string;
+  count: number;
+}
+
+export interface PromptSuggestions {
+  modelVersionId: number;
+  modelName: string;
+  versionName: string;
+  type: string;
+  baseModel?: string;
+  trainedWords: string[];
+  /** Sample images that carried a prompt */
+  imagesAnalyzed: number;
+  templates: PromptTemplate[];
+  settings: {
+    samplers: Frequency[];
+    sizes: Frequency[];
+    steps?: NumberRange;
+    cfgScale?: NumberRange;
+    weight?: NumberRange;
+  };
+  commonTokens: Frequency[];
+  commonNegativeTokens: Frequency[];
+}
+
+export interface SuggestOptions {
+  /** How many of the version's top images to analyze */
+  sampleSize?: number;
+  /** How many prompt templates to return */
+  templates?: number;
+}
+
+const DEFAULT_SAMPLE_SIZE = 20;
+const DEFAULT_TEMPLATES = 5;
+const TOP_TOKENS = 15;
+
+function reactions(image: Image): number {
+  const stats = image.stats ?? {};
+  return (stats.likeCount ?? 0) + (stats.heartCount ?? 0) + (stats.laughCount ?? 0) + (stats.cryCount ?? 0);
+}
+
+function range(values: number[]): NumberRange | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    median: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+  };
+}
+
+function frequencies(values: Array<string | undefined>, top?: number): Frequency[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, top);
+}
+
+/** Splits a prompt into comparable tokens: no LoRA tags, attention brackets or weights */
+function tokens(prompt: string | undefined): string[] {
+  return (prompt ?? '')
+    .replace(/<[^>]*>/g, ',')
+    .split(/[,\n]/)
+    .map(token => token.trim().replace(/^[([{]+|[)\]}]+$/g, '').replace(/:\s*-?\d+(\.\d+)?$/, '').trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * The sample's resource entry for this version: matched by version id (Civitai
+ * generator), by file hash, or by the LoRA tag naming one of the version's files.
+ */
+function ownResource(params: GenerationParams, version: ModelVersionResponse): GenerationResource | undefined {
+  const hashes = version.files.flatMap(file => Object.values(file.hashes ?? {}))
+    .filter((hash): hash is string => typeof hash === 'string')
+    .map(hash => hash.toLowerCase());
+  const names = version.files.map(file => file.name?.replace(/\.\w+$/, '').toLowerCase()).filter(Boolean);
+  return params.resources.find(resource =>
+    resource.modelVersionId === version.id ||
+    (resource.hash !== undefined && hashes.includes(resource.hash.toLowerCase())) ||
+    (resource.type !== 'checkpoint' && resource.name !== undefined && names.includes(resource.name.toLowerCase()))
+  );
+}
+
+/**
+ * Builds prompt templates for a model version from its most-reacted sample
+ * images, and summarizes the settings those samples used. Each template is a
+ * sample's own prompt, with the version's trigger words added when missing.
+ */
+export async function suggestPrompts(
+  client: CivitaiClient,
+  modelVersionId: number,
+  options: SuggestOptions = {}
+): Promise<PromptSuggestions> {
+  const version = await client.getModelVersion(modelVersionId);
+  const trainedWords = version.trainedWords ?? [];
+  const { items } = await client.getImages({
+    modelVersionId,
+    sort: 'Most Reactions',
+    limit: options.sampleSize ?? DEFAULT_SAMPLE_SIZE,
+  });
+
+  const samples = items
+    .filter(image => typeof image.meta?.prompt === 'string' && image.meta.prompt.trim() !== '')
+    .map(image => ({ image, reactions: reactions(image), params: fromCivitaiMeta(image.meta!) }))
+    .sort((a, b) => b.reactions - a.reactions);
+
+  const templates: PromptTemplate[] = [];
+  const seen = new Set<string>();
+  for (const { image, reactions, params } of samples) {
+    const prompt = params.prompt!.trim();
+    const key = prompt.toLowerCase().replace(/\s+/g, ' ');
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const missing = trainedWords.filter(word => !prompt.toLowerCase().includes(word.toLowerCase()));
+    templates.push({
+      rank: templates.length + 1,
+      prompt: missing.length > 0 ? `${missing.join(', ')}, ${prompt}` : prompt,
+      negativePrompt: params.negativePrompt,
+      addedTriggerWords: missing,
+      sampler: params.sampler,
+      steps: params.steps,
+      cfgScale: params.cfgScale,
+      size: params.width && params.height ? `${params.width}x${params.height}` : undefined,
+      weight: version.model.type === 'Checkpoint' ? undefined : ownResource(params, version)?.weight,
+      source: { imageId: image.id, url: image.url, reactions },
+    });
+    if (templates.length === (options.templates ?? DEFAULT_TEMPLATES)) break;
+  }
+
+  const all = samples.map(sample => sample.params);
+  const numbers = (pick: (params: GenerationParams) => number | undefined) =>
+    all.map(pick).filter((value): value is number => value !== undefined);
+
+  return {
+    modelVersionId,
+    modelName: version.model.name,
+    versionName: version.name,
+    type: version.model.type,
+    baseModel: version.baseModel,
+    trainedWords,
+    imagesAnalyzed: samples.length,
+    templates,
+    settings: {
+      samplers: frequencies(all.map(params => params.sampler)),
+      sizes: frequencies(all.map(params => params.width && params.height ? `${params.width}x${params.height}` : undefined)),
+      steps: range(numbers(params => params.steps)),
+      cfgScale: range(numbers(params => params.cfgScale)),
+      weight: version.model.type === 'Checkpoint' ? undefined : range(numbers(params => ownResource(params, version)?.weight)),
+    },
+    commonTokens: frequencies(all.flatMap(params => tokens(params.prompt)), TOP_TOKENS),
+    commonNegativeTokens: frequencies(all.flatMap(params => tokens(params.negativePrompt)), TOP_TOKENS),
+  };
+}
@@ -0,0 +1,79 @@
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** A Retry-After longer than this is reported to the caller instead of waited out */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 30_000,
+};
+
+export const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Client-side token bucket. Callers queue in order, so concurrent tool calls
+ * sharing one client never exceed `ratePerSecond` after the initial burst.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private ratePerSecond: number, private capacity: number = ratePerSecond) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    const next = this.queue.then(() => this.waitForToken());
+    this.queue = next;
+    return next;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private async waitForToken() {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+}
@@ -0,0 +1,101 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+  [key: string]: unknown;
+}
+
+/** What a resource reader returns: the normalized data and its markdown view */
+export interface ResourceView<T = unknown> {
+  data: T;
+  markdown: string;
+}
+
+/**
+ * A family of resources addressed by an RFC 6570 level 1 URI template, e.g.
+ * `civitai://model/{id}`. The reader gets the template's variables, decoded.
+ */
+export interface ResourceDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  read: (params: Record<string, string>) => Promise<ResourceView>;
+}
+
+export function defineResource(definition: ResourceDefinition): ResourceDefinition {
+  return definition;
+}
+
+interface CompiledResource {
+  definition: ResourceDefinition;
+  pattern: RegExp;
+  variables: string[];
+}
+
+export class ResourceRegistry {
+  private resources: CompiledResource[] = [];
+
+  register(...definitions: ResourceDefinition[]) {
+    for (const definition of definitions) {
+      if (this.resources.some(resource => resource.definition.uriTemplate === definition.uriTemplate)) {
+        throw new Error(`Resource already registered: ${definition.uriTemplate}`);
+      }
+      this.resources.push({ definition, ...compileTemplate(definition.uriTemplate) });
+    }
+  }
+
+  listTemplates(): ResourceTemplate[] {
+    return this.resources.map(({ definition }) => ({
+      uriTemplate: definition.uriTemplate,
+      name: definition.name,
+      description: definition.description,
+      mimeType: 'application/json',
+    }));
+  }
+
+  /** Whether some template matches `uri` */
+  has(uri: string): boolean {
+    return this.match(uri) !== undefined;
+  }
+
+  /**
+   * Reads a resource as two contents: the JSON data and its markdown rendering.
+   * Callers must check `has(uri)` first.
+   */
+  async read(uri: string): Promise<ResourceContents[]> {
+    const { definition, params } = this.match(uri)!;
+    const view = await definition.read(params);
+    return [
+      { uri, mimeType: 'application/json', text: JSON.stringify(view.data, null, 2) },
+      { uri, mimeType: 'text/markdown', text: view.markdown },
+    ];
+  }
+
+  private match(uri: string): { definition: ResourceDefinition; params: Record<string, string> } | undefined {
+    for (const { definition, pattern, variables } of this.resources) {
+      const match = pattern.exec(uri);
+      if (!match) continue;
+      try {
+        const params = Object.fromEntries(variables.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+        return { definition, params };
+      } catch {
+        // Malformed percent-encoding; no template matches
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+}
+
+function compileTemplate(template: string): { pattern: RegExp; variables: string[] } {
+  const variables: string[] = [];
+  const source = template.split(/(\{\w+\})/).map(part => {
+    const variable = /^\{(\w+)\}$/.exec(part);
+    if (!variable) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    variables.push(variable[1]);
+    return '([^/?#]+)';
+  }).join('');
+  return { pattern: new RegExp(`^${source}$`), variables };
+}
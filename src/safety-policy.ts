@@ -0,0 +1,197 @@
+import { SafetyPolicyError } from './errors.js';
+import { wasRepaired } from './schema-drift.js';
+import { ModelFile, ModelVersionResponse } from './types.js';
+
+/**
+ * Which model files may be handed out. `get_model` and `get_model_version` mark
+ * files that fail and drop their download URLs; `get_download_url` and
+ * `download_model_version` refuse them with SAFETY_POLICY.
+ */
+export interface SafetyPolicy {
+  /** Only SafeTensor weights pass */
+  requireSafeTensors: boolean;
+  /** PickleTensor weights fail, even with clean scans */
+  blockPickle: boolean;
+  /** Pickle and virus scans must both report Success */
+  requireScans: boolean;
+  /** Scans older than this many days fail; any age passes when unset */
+  maxScanAgeDays?: number;
+}
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  requireSafeTensors: false,
+  blockPickle: false,
+  requireScans: true,
+};
+
+export interface SafetyRuleResult {
+  rule: 'file-list' | 'format' | 'scans' | 'scan-age' | 'danger';
+  passed: boolean;
+  detail: string;
+}
+
+export interface FileSafety {
+  passed: boolean;
+  /** Details of the rules that failed */
+  reasons: string[];
+  rules: SafetyRuleResult[];
+}
+
+export interface FileSafetyReport extends FileSafety {
+  id?: number;
+  name?: string;
+  type?: string;
+  format?: string;
+  primary: boolean;
+  pickleScan?: string;
+  virusScan?: string;
+  scannedAt?: string;
+}
+
+export interface ModelSafetyReport {
+  modelVersionId: number;
+  modelId: number;
+  modelName: string;
+  versionName: string;
+  type: string;
+  policy: SafetyPolicy;
+  /** The primary file, the one `get_download_url` hands out, passes and the file list is complete */
+  passed: boolean;
+  files: FileSafetyReport[];
+}
+
+// Files that hold no weights; format rules don't apply to them
+const NON_WEIGHT_TYPES = new Set(['Training Data', 'Config', 'Archive']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Checks one file against the policy, explaining every rule that applied */
+export function checkFileSafety(file: ModelFile, policy: SafetyPolicy, now = new Date()): FileSafety {
+  const rules: SafetyRuleResult[] = [];
+  const format = file.metadata?.format ?? undefined;
+  const pickle = file.pickleScanResult ?? 'Unknown';
+  const virus = file.virusScanResult ?? 'Unknown';
+
+  // A scan that found something always fails, whatever the policy
+  const dangerous = pickle === 'Danger' || virus === 'Danger';
+  rules.push({
+    rule: 'danger',
+    passed: !dangerous,
+    detail: dangerous ? `scans flagged the file (pickle ${pickle}, virus ${virus})` : 'no scan flagged the file',
+  });
+
+  if ((policy.requireSafeTensors || policy.blockPickle) && !NON_WEIGHT_TYPES.has(file.type ?? '')) {
+    const passed = policy.requireSafeTensors ? format === 'SafeTensor' : format !== 'PickleTensor';
+    rules.push({
+      rule: 'format',
+      passed,
+      detail: passed
+        ? `format is ${format ?? 'unknown'}`
+        : policy.requireSafeTensors
+          ? `format is ${format ?? 'unknown'}; the policy requires SafeTensor`
+          : 'PickleTensor files are blocked by the policy',
+    });
+  }
+
+  if (policy.requireScans) {
+    const passed = pickle === 'Success' && virus === 'Success';
+    rules.push({
+      rule: 'scans',
+      passed,
+      detail: passed ? 'pickle and virus scans succeeded' : `scans incomplete or failed (pickle ${pickle}, virus ${virus})`,
+    });
+  }
+
+  if (policy.maxScanAgeDays !== undefined) {
+    const scannedAt = file.scannedAt ? new Date(file.scannedAt) : undefined;
+    const ageDays = scannedAt && !Number.isNaN(scannedAt.getTime())
+      ? Math.floor((now.getTime() - scannedAt.getTime()) / DAY_MS)
+      : undefined;
+    const passed = ageDays !== undefined && ageDays <= policy.maxScanAgeDays;
+    rules.push({
+      rule: 'scan-age',
+      passed,
+      detail: ageDays === undefined
+        ? 'no scan date recorded'
+        : `scanned ${ageDays} day(s) ago; the policy allows ${policy.maxScanAgeDays}`,
+    });
+  }
+
+  const failed = rules.filter(rule => !rule.passed);
+  return { passed: failed.length === 0, reasons: failed.map(rule => rule.detail), rules };
+}
+
+/** The file downloads get when no file is named */
+export function primaryFile(files: ModelFile[]): ModelFile | undefined {
+  return files.find(file => file.primary);
+}
+
+/**
+ * Checks the file a download serves. Fails without checking the file when there
+ * is none, or when lenient parsing dropped entries from the file list: the file
+ * served could then be one that was never checked.
+ */
+export function servedFileSafety(
+  files: ModelFile[],
+  file: ModelFile | undefined,
+  policy: SafetyPolicy,
+  now = new Date()
+): FileSafety {
+  const detail = wasRepaired(files)
+    ? 'the file list did not match the expected schema and was repaired'
+    : !file
+      ? files.length > 0 ? 'no file is marked primary' : 'the version lists no files'
+      : undefined;
+  if (detail) {
+    return { passed: false, reasons: [detail], rules: [{ rule: 'file-list', passed: false, detail }] };
+  }
+  return checkFileSafety(file!, policy, now);
+}
+
+/** Throws SAFETY_POLICY unless the file a download of the version serves passes the policy */
+export function assertFileSafe(
+  version: ModelVersionResponse,
+  file: ModelFile | undefined,
+  policy: SafetyPolicy,
+  now = new Date()
+): asserts file is ModelFile {
+  const safety = servedFileSafety(version.files, file, policy, now);
+  if (!safety.passed) {
+    const name = file ? file.name ?? `File ${file.id ?? 'without id'}` : `Model version ${version.id}`;
+    throw new SafetyPolicyError(name, safety.reasons, {
+      modelVersionId: version.id,
+      fileId: file?.id,
+    });
+  }
+}
+
+/** Checks every file of a model version, explaining why each passes or fails */
+export function modelSafetyReport(
+  version: ModelVersionResponse,
+  policy: SafetyPolicy,
+  now = new Date()
+): ModelSafetyReport {
+  const primary = primaryFile(version.files);
+  const files = version.files.map((file): FileSafetyReport => ({
+    id: file.id,
+    name: file.name,
+    type: file.type,
+    format: file.metadata?.format ?? undefined,
+    primary: file === primary,
+    pickleScan: file.pickleScanResult,
+    virusScan: file.virusScanResult,
+    scannedAt: file.scannedAt ?? undefined,
+    ...checkFileSafety(file, policy, now),
+  }));
+
+  return {
+    modelVersionId: version.id,
+    modelId: version.modelId,
+    modelName: version.model.name,
+    versionName: version.name,
+    type: version.model.type,
+    policy,
+    passed: servedFileSafety(version.files, primary, policy, now).passed,
+    files,
+  };
+}
@@ -0,0 +1,258 @@
+import { ZodIssue, ZodObject, ZodRawShape, ZodTypeAny, z } from 'zod';
+import { SchemaDriftError } from './errors.js';
+import { redact } from './secrets.js';
+
+/**
+ * - `strict`: any mismatch fails the request with SCHEMA_DRIFT
+ * - `lenient`: unknown enum values are kept, malformed list items are skipped,
+ *   and the request only fails when the response itself is unusable
+ */
+export type SchemaMode = 'strict' | 'lenient';
+
+export interface DriftEvent {
+  endpoint: string;
+  /** Dotted path into the response body, e.g. `items.3.type` */
+  path: string;
+  /** `unknown-enum`: value kept; `skipped-item`: list item dropped; `invalid`: request failed */
+  kind: 'unknown-enum' | 'skipped-item' | 'invalid';
+  message: string;
+  value?: unknown;
+  at: string;
+}
+
+export interface DriftSummaryEntry {
+  endpoint: string;
+  /** Path with list indices collapsed to `*` so repeats group together */
+  path: string;
+  kind: DriftEvent['kind'];
+  count: number;
+  lastSeen: string;
+  lastMessage: string;
+  /** Up to five distinct offending values, for unknown enums */
+  values: unknown[];
+}
+
+export interface SchemaHealth {
+  mode: SchemaMode;
+  totalEvents: number;
+  drift: DriftSummaryEntry[];
+}
+
+/** Give up on a response after this many rounds of skipping items */
+const MAX_REPAIR_ROUNDS = 20;
+
+/**
+ * Session-wide record of responses that did not match the schemas. Every event is
+ * also written to `log` (stderr by default; stdout belongs to the MCP transport).
+ */
+export class SchemaDriftLog {
+  private events: DriftEvent[] = [];
+
+  constructor(private log: (line: string) => void = line => console.error(redact(line))) {}
+
+  record(event: Omit<DriftEvent, 'at'>) {
+    const stored = { ...event, at: new Date().toISOString() };
+    this.events.push(stored);
+    const value = event.value === undefined ? '' : ` (value: ${JSON.stringify(event.value)})`;
+    this.log(`[schema-drift] ${event.kind} ${event.endpoint} ${event.path || '(root)'}: ${event.message}${value}`);
+  }
+
+  summary(mode: SchemaMode): SchemaHealth {
+    const groups = new Map<string, DriftSummaryEntry>();
+    for (const event of this.events) {
+      const path = event.path.replace(/(^|\.)\d+(?=\.|$)/g, '$1*');
+      const key = `${event.kind} ${event.endpoint.replace(/\/\d+/g, '/:id')} ${path}`;
+      const entry = groups.get(key) ?? {
+        endpoint: event.endpoint.replace(/\/\d+/g, '/:id'),
+        path,
+        kind: event.kind,
+        count: 0,
+        lastSeen: event.at,
+        lastMessage: event.message,
+        values: [],
+      };
+      entry.count++;
+      entry.lastSeen = event.at;
+      entry.lastMessage = event.message;
+      if (event.value !== undefined && entry.values.length < 5 && !entry.values.includes(event.value)) {
+        entry.values.push(event.value);
+      }
+      groups.set(key, entry);
+    }
+
+    return {
+      mode,
+      totalEvents: this.events.length,
+      drift: [...groups.values()].sort((a, b) => b.count - a.count),
+    };
+  }
+
+  clear() {
+    this.events = [];
+  }
+}
+
+/**
+ * Parses `data` with `schema`, recording any drift. In lenient mode unknown enum
+ * values pass through as strings and list items that still fail are removed; only
+ * problems outside any list fail the request.
+ */
+export function parseWithDrift<T>(
+  schema: ZodTypeAny,
+  data: unknown,
+  endpoint: string,
+  mode: SchemaMode,
+  log: SchemaDriftLog
+): T {
+  const strict = schema.safeParse(data);
+  if (strict.success) {
+    return strict.data;
+  }
+
+  if (mode === 'strict') {
+    for (const issue of strict.error.issues) {
+      log.record({ endpoint, path: issue.path.join('.'), kind: 'invalid', message: issue.message });
+    }
+    throw new SchemaDriftError(endpoint, strict.error);
+  }
+
+  for (const issue of enumIssues(strict.error.issues)) {
+    log.record({
+      endpoint,
+      path: issue.path.join('.'),
+      kind: 'unknown-enum',
+      message: issue.message,
+      value: valueAt(data, issue.path),
+    });
+  }
+
+  const relaxed = relax(schema);
+  const repaired = new Set<unknown[]>();
+  let working = data;
+  let result = relaxed.safeParse(working);
+  for (let round = 0; !result.success; round++) {
+    const removals = round < MAX_REPAIR_ROUNDS ? itemsToSkip(result.error.issues) : undefined;
+    if (!removals) {
+      for (const issue of result.error.issues) {
+        log.record({ endpoint, path: issue.path.join('.'), kind: 'invalid', message: issue.message });
+      }
+      throw new SchemaDriftError(endpoint, result.error);
+    }
+
+    working = working === data ? structuredClone(data) : working;
+    for (const [path, message] of removals) {
+      log.record({ endpoint, path: path.join('.'), kind: 'skipped-item', message });
+    }
+    // Remove last-first so earlier removals don't shift the indices of later ones
+    for (const [path] of [...removals].sort(([a], [b]) => comparePaths(b, a))) {
+      const list = valueAt(working, path.slice(0, -1)) as unknown[];
+      list.splice(Number(path.at(-1)), 1);
+      repaired.add(list);
+    }
+    result = relaxed.safeParse(working);
+  }
+
+  markRepaired(working, result.data, repaired);
+  return result.data;
+}
+
+// Parsed lists that had items skipped, so callers relying on a list being complete can tell
+const repairedLists = new WeakSet<object>();
+
+/** Whether lenient parsing dropped items from this list */
+export function wasRepaired(list: readonly unknown[]): boolean {
+  return repairedLists.has(list);
+}
+
+// Parsing builds new lists, so find the parsed counterparts of the repaired input lists
+function markRepaired(input: unknown, output: unknown, repaired: Set<unknown[]>) {
+  if (repaired.size === 0 || typeof input !== 'object' || input === null || typeof output !== 'object' || output === null) {
+    return;
+  }
+  if (Array.isArray(input) && repaired.has(input)) {
+    repairedLists.add(output);
+  }
+  for (const [key, value] of Object.entries(output)) {
+    markRepaired((input as Record<string, unknown>)[key], value, repaired);
+  }
+}
+
+// Enum mismatches, including those nested in union alternatives (e.g. nsfwLevel)
+function enumIssues(issues: ZodIssue[]): ZodIssue[] {
+  return issues.flatMap(issue => {
+    if (issue.code === 'invalid_enum_value') return [issue];
+    if (issue.code === 'invalid_union') {
+      return enumIssues(issue.unionErrors.flatMap(error => error.issues)).slice(0, 1);
+    }
+    return [];
+  });
+}
+
+/**
+ * For each issue, the path of the innermost list item containing it, with the
+ * first message per item. Undefined when an issue is not inside any list.
+ */
+function itemsToSkip(issues: ZodIssue[]): Map<Array<string | number>, string> | undefined {
+  const byKey = new Map<string, [Array<string | number>, string]>();
+  for (const issue of issues) {
+    let index = issue.path.length - 1;
+    while (index >= 0 && typeof issue.path[index] !== 'number') index--;
+    if (index === -1) return undefined;
+    const path = issue.path.slice(0, index + 1);
+    const key = path.join('.');
+    if (!byKey.has(key)) {
+      byKey.set(key, [path, `${issue.path.slice(index + 1).join('.') || '(item)'}: ${issue.message}`]);
+    }
+  }
+  return new Map(byKey.values());
+}
+
+function comparePaths(a: Array<string | number>, b: Array<string | number>): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return typeof a[i] === 'number' && typeof b[i] === 'number'
+        ? (a[i] as number) - (b[i] as number)
+        : String(a[i]).localeCompare(String(b[i]));
+    }
+  }
+  return a.length - b.length;
+}
+
+function valueAt(data: unknown, path: Array<string | number>): unknown {
+  return path.reduce<unknown>((value, segment) => (value as Record<string | number, unknown> | undefined)?.[segment], data);
+}
+
+const relaxedSchemas = new WeakMap<ZodTypeAny, ZodTypeAny>();
+
+/**
+ * Copy of `schema` in which every enum accepts any string. Objects keep their
+ * unknown-key policy; wrappers and containers are rebuilt around relaxed members.
+ */
+function relax(schema: ZodTypeAny): ZodTypeAny {
+  const cached = relaxedSchemas.get(schema);
+  if (cached) return cached;
+
+  let relaxed: ZodTypeAny = schema;
+  if (schema instanceof z.ZodEnum || schema instanceof z.ZodNativeEnum) {
+    relaxed = z.string();
+  } else if (schema instanceof z.ZodObject) {
+    const shape: ZodRawShape = {};
+    for (const [key, value] of Object.entries((schema as ZodObject<ZodRawShape>).shape)) {
+      shape[key] = relax(value);
+    }
+    relaxed = new z.ZodObject({ ...schema._def, shape: () => shape });
+  } else if (schema instanceof z.ZodArray) {
+    relaxed = z.array(relax(schema.element));
+  } else if (schema instanceof z.ZodOptional) {
+    relaxed = relax(schema.unwrap()).optional();
+  } else if (schema instanceof z.ZodNullable) {
+    relaxed = relax(schema.unwrap()).nullable();
+  } else if (schema instanceof z.ZodUnion) {
+    relaxed = z.union(schema.options.map(relax));
+  } else if (schema instanceof z.ZodRecord) {
+    relaxed = z.record(relax(schema.valueSchema));
+  }
+
+  relaxedSchemas.set(schema, relaxed);
+  return relaxed;
+}
@@ -0,0 +1,67 @@
+import { readFileSync } from 'node:fs';
+import { ConfigError } from './errors.js';
+
+const REDACTED = '[REDACTED]';
+
+// Secrets shorter than this would mask ordinary words and numbers
+const MIN_SECRET_LENGTH = 8;
+
+/** API keys and auth tokens in use by this process, with how many registrations each has */
+const secrets = new Map<string, number>();
+
+/**
+ * Has `redact` mask `value`. Secrets of the whole process can ignore the returned
+ * function; those of one caller call it when the caller is gone. A value stays
+ * masked until every registration of it has been released.
+ */
+export function registerSecret(value: string | undefined): () => void {
+  if (!value || value.length < MIN_SECRET_LENGTH) return () => {};
+  secrets.set(value, (secrets.get(value) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (secrets.get(value) ?? 1) - 1;
+    if (count > 0) secrets.set(value, count);
+    else secrets.delete(value);
+  };
+}
+
+/**
+ * Masks registered secrets, credential query parameters and bearer tokens.
+ * Applied to everything that leaves the server as an error or a log line.
+ */
+export function redact(text: string): string {
+  let result = text
+    .replace(/([?&](?:token|api_?key)=)[^&\s#"']+/gi, `$1${REDACTED}`)
+    .replace(/(Bearer\s+)[^\s"',]+/gi, `$1${REDACTED}`);
+  for (const secret of secrets.keys()) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
+
+/** Writes an error to stderr (stdout belongs to the stdio transport) with secrets masked */
+export function logError(context: string, error: unknown) {
+  const detail = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error(redact(`${context}: ${detail}`));
+}
+
+/**
+ * Reads a secret kept in its own file, e.g. a Docker or Kubernetes secret mount or a
+ * systemd credential. Surrounding whitespace is dropped; the contents never appear in errors.
+ */
+export function readSecretFile(path: string): string {
+  let value: string;
+  try {
+    value = readFileSync(path, 'utf8').trim();
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code ?? 'unreadable';
+    throw new ConfigError(`Cannot read secret file ${path} (${reason})`, { file: path });
+  }
+  if (!value) {
+    throw new ConfigError(`Secret file ${path} is empty`, { file: path });
+  }
+  registerSecret(value);
+  return value;
+}
@@ -0,0 +1,983 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { CivitaiClient } from './civitai-client.js';
+import { clientOptionsFromConfig, loadConfig, serverOptionsFromConfig } from './config.js';
+import { CivitaiError, InvalidArgumentsError, NotFoundError, toCivitaiError } from './errors.js';
+import { checkModelUpdates } from './model-updates.js';
+import { downloadModelVersion } from './downloader.js';
+import { inspectLocalImage } from './image-metadata.js';
+import { suggestPrompts } from './prompt-suggestions.js';
+import { compareModels } from './model-comparison.js';
+import { checkStackCompatibility } from './stack-compatibility.js';
+import { licenseReport } from './license-report.js';
+import { DEFAULT_SAFETY_POLICY, SafetyPolicy, assertFileSafe, modelSafetyReport, primaryFile } from './safety-policy.js';
+import {
+  GenerationParams,
+  fromCivitaiMeta,
+  parseInfotext,
+  resolveResources,
+  toComfyWorkflow,
+  toInfotext,
+} from './generation-params.js';
+import { HASH_CACHE_FILE, HashCache, resolveInside, scanLocalModels } from './local-library.js';
+import { ToolContext, ToolRegistry, ToolResult, ToolSelection, defineTool } from './tool-registry.js';
+import { ResourceRegistry, ResourceView, defineResource } from './resource-registry.js';
+import { PromptRegistry, definePrompt } from './prompt-registry.js';
+import { collectPages, withPage } from './pagination.js';
+import { redact } from './secrets.js';
+import {
+  OutputFormat,
+  Pagination,
+  SummaryFormat,
+  normalizeCreatorList,
+  normalizeCreatorProfile,
+  normalizeImage,
+  normalizeImageList,
+  normalizeModel,
+  normalizeModelList,
+  normalizeModelVersion,
+  normalizeTagList,
+  normalizeTagProfile,
+  renderCacheCleared,
+  renderCacheStats,
+  renderCreatorProfile,
+  renderCreators,
+  renderDownload,
+  renderDownloadUrl,
+  renderGenerationParams,
+  renderImage,
+  renderImages,
+  renderLatestModels,
+  renderLicenseReport,
+  renderLocalImage,
+  renderLocalScan,
+  renderModel,
+  renderModelComparison,
+  renderModelSafety,
+  renderModelSearch,
+  renderModelVersion,
+  renderPromptSuggestions,
+  renderModelVersionByHash,
+  renderModelUpdates,
+  renderModelsByCreator,
+  renderModelsByTag,
+  renderModelsByType,
+  renderPopularModels,
+  renderSchemaHealth,
+  renderStackCompatibility,
+  renderTagProfile,
+  renderTags,
+  renderTopRatedModels,
+} from './formatters.js';
+import {
+  BrowseImagesInput,
+  CacheStatsInput,
+  CheckModelSafetyInput,
+  CheckModelUpdatesInput,
+  CheckStackCompatibilityInput,
+  CompareModelsInput,
+  ClearCacheInput,
+  DownloadModelVersionInput,
+  GetCreatorsInput,
+  GetDownloadUrlInput,
+  GetImageGenerationParamsInput,
+  InspectLocalImageInput,
+  LicenseReportInput,
+  GetLatestModelsInput,
+  GetModelInput,
+  GetModelVersionByHashInput,
+  GetModelVersionInput,
+  GetModelsByTypeInput,
+  GetPopularModelsInput,
+  GetTagsInput,
+  GetTopRatedModelsInput,
+  ScanLocalModelsInput,
+  SchemaHealthInput,
+  SearchModelsByCreatorInput,
+  SearchModelsByTagInput,
+  SearchModelsInput,
+  SuggestPromptsInput,
+} from './tool-schemas.js';
+import { join } from 'node:path';
+import { z } from 'zod';
+
+export interface ServerOptions {
+  /** Root of the local model library; the scan and download tools are disabled without it */
+  modelsDir?: string;
+  /** Folder `inspect_local_image` reads from; the tool refuses every path without it */
+  imagesDir?: string;
+  /** Where file hashes are remembered between scans (default: `.civitai-hashes.json` in `modelsDir`) */
+  hashCacheFile?: string;
+  /** Which files `get_model`, `get_download_url` and downloads hand out (default: DEFAULT_SAFETY_POLICY) */
+  safetyPolicy?: SafetyPolicy;
+  /** How model summaries in lists are trimmed (default: DEFAULT_SUMMARY_FORMAT) */
+  formatting?: SummaryFormat;
+  /** Page size for list tools called without `limit` or `maxItems`; the API's default when unset */
+  defaultLimit?: number;
+  /** Which tools are served (default: all) */
+  tools?: ToolSelection;
+  /** Let `get_download_url` embed the API key in links when asked to (default: false) */
+  allowTokenizedDownloadUrls?: boolean;
+  /** Abandon downloads that receive no data for this long (default: DEFAULT_STALL_TIMEOUT_MS) */
+  downloadStallTimeoutMs?: number;
+}
+
+export class CivitaiMCPServer {
+  private server: Server;
+  private client: CivitaiClient;
+  private registry = new ToolRegistry();
+  private resources = new ResourceRegistry();
+  private prompts = new PromptRegistry();
+  private options: ServerOptions;
+
+  constructor(client?: CivitaiClient, options?: ServerOptions) {
+    this.server = new Server(
+      {
+        name: 'civitai-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+        },
+      }
+    );
+
+    // Fall back to the configuration from the environment (and CIVITAI_CONFIG)
+    if (!client || !options) {
+      const config = loadConfig({ args: [] });
+      client ??= new CivitaiClient(config.apiKey, clientOptionsFromConfig(config));
+      options ??= serverOptionsFromConfig(config);
+    }
+    this.client = client;
+    this.options = options;
+
+    this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  private setupToolHandlers() {
+    this.registerTools();
+    this.registry.select(this.options.tools ?? {});
+
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: this.registry.list(),
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      if (!this.registry.has(name)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+      }
+
+      // Only report progress when the caller asked for it
+      const progressToken = request.params._meta?.progressToken;
+      const context: ToolContext = {
+        progress: async (progress, total) => {
+          if (progressToken === undefined) return;
+          await this.server.notification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total },
+          });
+        },
+      };
+
+      try {
+        return await this.registry.call(name, args, context);
+      } catch (error) {
+        return this.errorResult(toCivitaiError(error));
+      }
+    });
+  }
+
+  private setupResourceHandlers() {
+    this.registerResources();
+
+    // Every resource is addressed by a template; there is no fixed list to enumerate
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: [] }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resources.listTemplates(),
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      if (!this.resources.has(uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+
+      try {
+        return { contents: await this.resources.read(uri) };
+      } catch (error) {
+        throw mcpErrorFor(error);
+      }
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.registerPrompts();
+
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.prompts.list(),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      if (!this.prompts.has(name)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+
+      try {
+        return await this.prompts.get(name, args);
+      } catch (error) {
+        throw mcpErrorFor(error);
+      }
+    });
+  }
+
+  private registerPrompts() {
+    this.prompts.register(
+      definePrompt({
+        name: 'find_lora_for_style',
+        description: 'Find LoRAs for a visual style that work with a given base model',
+        arguments: [
+          { name: 'style', description: 'The style to match, e.g. "watercolor" or "90s anime"', required: true },
+          { name: 'baseModel', description: 'Base model the LoRA must support, e.g. "SDXL 1.0" or "SD 1.5"', required: true },
+        ],
+        build: args => this.findLoraPrompt(args),
+      }),
+      definePrompt({
+        name: 'audit_model',
+        description: 'Audit a model version\'s license permissions and file safety before production use',
+        arguments: [
+          { name: 'modelVersionId', description: 'ID of the model version to audit', required: true },
+        ],
+        build: args => this.auditModelPrompt(args),
+      }),
+      definePrompt({
+        name: 'reproduce_image',
+        description: 'Explain how to reproduce a Civitai image: prompt, settings and the resources to install',
+        arguments: [
+          { name: 'imageId', description: 'ID of the Civitai image to reproduce', required: true },
+        ],
+        build: args => this.reproduceImagePrompt(args),
+      }),
+      definePrompt({
+        name: 'summarize_version_changes',
+        description: 'Summarize what changed in a model\'s latest version compared to the one before',
+        arguments: [
+          { name: 'modelId', description: 'ID of the model', required: true },
+        ],
+        build: args => this.versionChangesPrompt(args),
+      }),
+    );
+  }
+
+  private registerResources() {
+    this.resources.register(
+      defineResource({
+        uriTemplate: 'civitai://model/{id}',
+        name: 'Civitai model',
+        description: 'A model card: description, versions, files, trigger words and stats',
+        read: params => this.readModelResource(params),
+      }),
+      defineResource({
+        uriTemplate: 'civitai://model-version/{id}',
+        name: 'Civitai model version',
+        description: 'One model version: base model, trigger words, files, hashes and scans',
+        read: params => this.readModelVersionResource(params),
+      }),
+      defineResource({
+        uriTemplate: 'civitai://image/{id}',
+        name: 'Civitai image',
+        description: 'A generated image with its creator, reactions and generation metadata',
+        read: params => this.readImageResource(params),
+      }),
+      defineResource({
+        uriTemplate: 'civitai://creator/{username}',
+        name: 'Civitai creator',
+        description: 'A creator profile with their most downloaded models',
+        read: params => this.readCreatorResource(params),
+      }),
+      defineResource({
+        uriTemplate: 'civitai://tag/{name}',
+        name: 'Civitai tag',
+        description: 'A model tag with its most downloaded models',
+        read: params => this.readTagResource(params),
+      }),
+    );
+  }
+
+  /**
+   * Tool result for a typed failure: a readable summary plus the error as JSON
+   * so agents can act on the code (e.g. wait `retryAfterMs` before retrying).
+   */
+  private errorResult(error: CivitaiError): ToolResult {
+    return {
+      isError: true,
+      content: [
+        { type: 'text', text: redact(`Error: ${error.message}`) },
+        { type: 'text', text: redact(JSON.stringify({ error: error.toJSON() })) },
+      ],
+    };
+  }
+
+  private registerTools() {
+    this.registry.register(
+      defineTool({
+        name: 'search_models',
+        description: 'Search for AI models on Civitai with various filters',
+        inputSchema: SearchModelsInput,
+        handler: args => this.searchModels(args),
+      }),
+      defineTool({
+        name: 'get_model',
+        description: 'Get detailed information about a specific model by ID',
+        inputSchema: GetModelInput,
+        handler: args => this.getModel(args),
+      }),
+      defineTool({
+        name: 'get_model_version',
+        description: 'Get detailed information about a specific model version',
+        inputSchema: GetModelVersionInput,
+        handler: args => this.getModelVersion(args),
+      }),
+      defineTool({
+        name: 'get_model_version_by_hash',
+        description: 'Get model version information by file hash',
+        inputSchema: GetModelVersionByHashInput,
+        handler: args => this.getModelVersionByHash(args),
+      }),
+      defineTool({
+        name: 'browse_images',
+        description: 'Browse AI-generated images from Civitai',
+        inputSchema: BrowseImagesInput,
+        handler: args => this.browseImages(args),
+      }),
+      defineTool({
+        name: 'get_image_generation_params',
+        description: 'Extract prompt, settings and LoRA/embedding resources from an image, as A1111 infotext and a ComfyUI prompt',
+        inputSchema: GetImageGenerationParamsInput,
+        handler: args => this.getImageGenerationParams(args),
+      }),
+      defineTool({
+        name: 'inspect_local_image',
+        description: 'Read the generation metadata embedded in a local PNG, JPEG or WebP image and identify its models and LoRAs on Civitai',
+        inputSchema: InspectLocalImageInput,
+        handler: args => this.inspectLocalImage(args),
+      }),
+      defineTool({
+        name: 'suggest_prompts',
+        description: 'Draft prompts for a model version from its trigger words and most-reacted sample images, with common settings',
+        inputSchema: SuggestPromptsInput,
+        handler: args => this.suggestPrompts(args),
+      }),
+      defineTool({
+        name: 'compare_models',
+        description: 'Compare 2-10 models or model versions side by side and flag incompatible base models',
+        inputSchema: CompareModelsInput,
+        handler: args => this.compareModels(args),
+      }),
+      defineTool({
+        name: 'check_stack_compatibility',
+        description: 'Check that LoRAs, embeddings and other resources match a checkpoint\'s base model, suggest same-base alternatives and list the trigger words needed',
+        inputSchema: CheckStackCompatibilityInput,
+        handler: args => this.checkStackCompatibility(args),
+      }),
+      defineTool({
+        name: 'license_report',
+        description: 'Report whether models (by ID, version ID or file hash) allow selling images, generation services, merging and use without credit',
+        inputSchema: LicenseReportInput,
+        handler: args => this.licenseReport(args),
+      }),
+      defineTool({
+        name: 'check_model_safety',
+        description: 'Explain whether each file of a model version passes the safety policy (file format, pickle and virus scans, scan age)',
+        inputSchema: CheckModelSafetyInput,
+        handler: args => this.checkModelSafety(args),
+      }),
+      defineTool({
+        name: 'get_creators',
+        description: 'Browse and search for model creators on Civitai',
+        inputSchema: GetCreatorsInput,
+        handler: args => this.getCreators(args),
+      }),
+      defineTool({
+        name: 'get_tags',
+        description: 'Browse and search for model tags on Civitai',
+        inputSchema: GetTagsInput,
+        handler: args => this.getTags(args),
+      }),
+      defineTool({
+        name: 'get_popular_models',
+        description: 'Get the most popular/downloaded models',
+        inputSchema: GetPopularModelsInput,
+        handler: args => this.getPopularModels(args),
+      }),
+      defineTool({
+        name: 'get_latest_models',
+        description: 'Get the newest models uploaded to Civitai',
+        inputSchema: GetLatestModelsInput,
+        handler: args => this.getLatestModels(args),
+      }),
+      defineTool({
+        name: 'get_top_rated_models',
+        description: 'Get the highest rated models',
+        inputSchema: GetTopRatedModelsInput,
+        handler: args => this.getTopRatedModels(args),
+      }),
+      defineTool({
+        name: 'search_models_by_tag',
+        description: 'Search for models by a specific tag',
+        inputSchema: SearchModelsByTagInput,
+        handler: args => this.searchModelsByTag(args),
+      }),
+      defineTool({
+        name: 'search_models_by_creator',
+        description: 'Search for models by a specific creator',
+        inputSchema: SearchModelsByCreatorInput,
+        handler: args => this.searchModelsByCreator(args),
+      }),
+      defineTool({
+        name: 'get_models_by_type',
+        description: 'Get models filtered by type (Checkpoint, LORA, etc.)',
+        inputSchema: GetModelsByTypeInput,
+        handler: args => this.getModelsByType(args),
+      }),
+      defineTool({
+        name: 'get_download_url',
+        description: 'Get the download URL for a specific model version. The URL carries no credentials unless `tokenized` is set',
+        inputSchema: GetDownloadUrlInput,
+        handler: args => this.getDownloadUrl(args),
+      }),
+      defineTool({
+        name: 'cache_stats',
+        description: 'Show response cache statistics (store, entries, hits, misses, revalidations)',
+        inputSchema: CacheStatsInput,
+        handler: args => this.cacheStats(args),
+      }),
+      defineTool({
+        name: 'clear_cache',
+        description: 'Purge cached API responses, optionally only for one endpoint',
+        inputSchema: ClearCacheInput,
+        handler: args => this.clearCache(args),
+      }),
+      defineTool({
+        name: 'schema_health',
+        description: 'Summarize API responses that did not match the expected schemas this session',
+        inputSchema: SchemaHealthInput,
+        handler: args => this.schemaHealth(args),
+      }),
+      defineTool({
+        name: 'scan_local_models',
+        description: 'Hash the model files in the local models directory and identify them on Civitai',
+        inputSchema: ScanLocalModelsInput,
+        handler: args => this.scanLocalModels(args),
+      }),
+      defineTool({
+        name: 'check_model_updates',
+        description: 'Check whether installed model versions (by file hash or version ID) have newer releases',
+        inputSchema: CheckModelUpdatesInput,
+        handler: args => this.checkModelUpdates(args),
+      }),
+      defineTool({
+        name: 'download_model_version',
+        description: 'Download a model version into the local models directory, resuming partial downloads and verifying the hash',
+        inputSchema: DownloadModelVersionInput,
+        handler: (args, context) => this.downloadModelVersion(args, context),
+      }),
+    );
+  }
+
+  // Tool implementation methods
+  private async searchModels(args: z.infer<typeof SearchModelsInput>): Promise<ToolResult> {
+    const { cursor, maxItems, output, ...params } = args;
+    const limit = pageSize(args, 100, this.options.defaultLimit);
+    const response = await collectPages(
+      page => this.client.getModels(withPage({ ...params, limit }, page)),
+      { cursor, maxItems, page: params.page }
+    );
+
+    return render(output, normalizeModelList(response, this.options.formatting), renderModelSearch);
+  }
+
+  private async getModel(args: z.infer<typeof GetModelInput>): Promise<ToolResult> {
+    const model = await this.client.getModel(args.modelId);
+    return render(args.output, normalizeModel(model, this.safetyPolicy), renderModel);
+  }
+
+  private async getModelVersion(args: z.infer<typeof GetModelVersionInput>): Promise<ToolResult> {
+    const version = await this.client.getModelVersion(args.modelVersionId);
+    return render(args.output, normalizeModelVersion(version, this.safetyPolicy), renderModelVersion);
+  }
+
+  private async getModelVersionByHash(args: z.infer<typeof GetModelVersionByHashInput>): Promise<ToolResult> {
+    const version = await this.client.getModelVersionByHash(args.hash);
+    return render(args.output, normalizeModelVersion(version, this.safetyPolicy), v => renderModelVersionByHash(v, args.hash));
+  }
+
+  private async browseImages(args: z.infer<typeof BrowseImagesInput>): Promise<ToolResult> {
+    const { cursor, maxItems, output, ...params } = args;
+    const limit = pageSize(args, 200, this.options.defaultLimit);
+    const response = await collectPages(
+      page => this.client.getImages(withPage({ ...params, limit }, page)),
+      { cursor, maxItems, page: params.page }
+    );
+
+    return render(output, normalizeImageList(response), renderImages);
+  }
+
+  private async getImageGenerationParams(args: z.infer<typeof GetImageGenerationParamsInput>): Promise<ToolResult> {
+    let params: GenerationParams;
+    if (args.imageId !== undefined) {
+      const image = await this.client.getImage(args.imageId);
+      if (!image.meta) {
+        throw new NotFoundError(`Image ${args.imageId} has no generation metadata`, { imageId: args.imageId });
+      }
+      params = fromCivitaiMeta(image.meta);
+    } else {
+      params = parseInfotext(args.infotext!);
+    }
+
+    if (args.resolveResources !== false) {
+      params = await resolveResources(this.client, params);
+    }
+
+    return render(args.output, {
+      imageId: args.imageId,
+      params,
+      infotext: toInfotext(params),
+      comfyui: toComfyWorkflow(params),
+    }, renderGenerationParams);
+  }
+
+  private async inspectLocalImage(args: z.infer<typeof InspectLocalImageInput>): Promise<ToolResult> {
+    const path = resolveInside(this.requireImagesDir(), args.path, 'images directory');
+    const report = await inspectLocalImage(this.client, path, { resolveResources: args.resolveResources });
+
+    return render(args.output, report, renderLocalImage);
+  }
+
+  private async suggestPrompts(args: z.infer<typeof SuggestPromptsInput>): Promise<ToolResult> {
+    const suggestions = await suggestPrompts(this.client, args.modelVersionId, {
+      sampleSize: args.sampleSize,
+      templates: args.templates,
+    });
+
+    return render(args.output, suggestions, renderPromptSuggestions);
+  }
+
+  private async compareModels(args: z.infer<typeof CompareModelsInput>): Promise<ToolResult> {
+    const comparison = await compareModels(this.client, args);
+    return render(args.output, comparison, renderModelComparison);
+  }
+
+  private async checkStackCompatibility(args: z.infer<typeof CheckStackCompatibilityInput>): Promise<ToolResult> {
+    const report = await checkStackCompatibility(this.client, args.checkpoint, args.resources, {
+      suggestAlternatives: args.suggestAlternatives,
+    });
+
+    return render(args.output, report, renderStackCompatibility);
+  }
+
+  private async licenseReport(args: z.infer<typeof LicenseReportInput>): Promise<ToolResult> {
+    const report = await licenseReport(this.client, args);
+    return render(args.output, report, renderLicenseReport);
+  }
+
+  private async checkModelSafety(args: z.infer<typeof CheckModelSafetyInput>): Promise<ToolResult> {
+    const version = args.modelVersionId !== undefined
+      ? await this.client.getModelVersion(args.modelVersionId)
+      : await this.client.getModelVersionByHash(args.hash!);
+
+    return render(args.output, modelSafetyReport(version, this.safetyPolicy), renderModelSafety);
+  }
+
+  private async getCreators(args: z.infer<typeof GetCreatorsInput>): Promise<ToolResult> {
+    const { cursor, maxItems, output, ...params } = args;
+    const limit = pageSize(args, 200, this.options.defaultLimit);
+    const response = await collectPages(
+      page => this.client.getCreators(withPage({ ...params, limit }, page)),
+      { cursor, maxItems, page: params.page }
+    );
+
+    return render(output, normalizeCreatorList(response), renderCreators);
+  }
+
+  private async getTags(args: z.infer<typeof GetTagsInput>): Promise<ToolResult> {
+    const { cursor, maxItems, output, ...params } = args;
+    const limit = pageSize(args, 200, this.options.defaultLimit);
+    const response = await collectPages(
+      page => this.client.getTags(withPage({ ...params, limit }, page)),
+      { cursor, maxItems, page: params.page }
+    );
+
+    return render(output, normalizeTagList(response), renderTags);
+  }
+
+  private async getPopularModels(args: z.infer<typeof GetPopularModelsInput>): Promise<ToolResult> {
+    const response = await collectPages(
+      page => this.client.getPopularModels(args.period, pageSize(args, 100, this.options.defaultLimit), page),
+      { cursor: args.cursor, maxItems: args.maxItems }
+    );
+
+    return render(args.output, normalizeModelList(response, this.options.formatting), list => renderPopularModels(list, args.period || 'Week'));
+  }
+
+  private async getLatestModels(args: z.infer<typeof GetLatestModelsInput>): Promise<ToolResult> {
+    const response = await collectPages(
+      page => this.client.getLatestModels(pageSize(args, 100, this.options.defaultLimit), page),
+      { cursor: args.cursor, maxItems: args.maxItems }
+    );
+
+    return render(args.output, normalizeModelList(response, this.options.formatting), renderLatestModels);
+  }
+
+  private async getTopRatedModels(args: z.infer<typeof GetTopRatedModelsInput>): Promise<ToolResult> {
+    const response = await collectPages(
+      page => this.client.getTopRatedModels(args.period, pageSize(args, 100, this.options.defaultLimit), page),
+      { cursor: args.cursor, maxItems: args.maxItems }
+    );
+
+    return render(args.output, normalizeModelList(response, this.options.formatting), list => renderTopRatedModels(list, args.period || 'AllTime'));
+  }
+
+  private async searchModelsByTag(args: z.infer<typeof SearchModelsByTagInput>): Promise<ToolResult> {
+    const { tag, cursor, maxItems, output, ...options } = args;
+    const limit = pageSize(args, 100, this.options.defaultLimit);
+    const response = await collectPages(
+      page => this.client.searchModelsByTag(tag, withPage({ ...options, limit }, page)),
+      { cursor, maxItems }
+    );
+
+    return render(output, normalizeModelList(response, this.options.formatting), list => renderModelsByTag(list, tag));
+  }
+
+  private async searchModelsByCreator(args: z.infer<typeof SearchModelsByCreatorInput>): Promise<ToolResult> {
+    const { username, cursor, maxItems, output, ...options } = args;
+    const limit = pageSize(args, 100, this.options.defaultLimit);
+    const response = await collectPages(
+      page => this.client.searchModelsByCreator(username, withPage({ ...options, limit }, page)),
+      { cursor, maxItems }
+    );
+
+    return render(output, normalizeModelList(response, this.options.formatting), list => renderModelsByCreator(list, username));
+  }
+
+  private async getModelsByType(args: z.infer<typeof GetModelsByTypeInput>): Promise<ToolResult> {
+    const { type, cursor, maxItems, output, ...options } = args;
+    const limit = pageSize(args, 100, this.options.defaultLimit);
+    const response = await collectPages(
+      page => this.client.getModelsByType(type, withPage({ ...options, limit }, page)),
+      { cursor, maxItems }
+    );
+
+    return render(output, normalizeModelList(response, this.options.formatting), list => renderModelsByType(list, type));
+  }
+
+  private async getDownloadUrl(args: z.infer<typeof GetDownloadUrlInput>): Promise<ToolResult> {
+    const { modelVersionId, tokenized = false } = args;
+    // A tokenized link puts the API key in the transcript, so the operator has to allow it
+    if (tokenized && !this.options.allowTokenizedDownloadUrls) {
+      throw new InvalidArgumentsError(
+        'Tokenized download URLs are disabled on this server; download with an Authorization header instead',
+        { tokenized }
+      );
+    }
+    // The URL serves the primary file, so it must pass the policy before it is handed out
+    const version = await this.client.getModelVersion(modelVersionId);
+    assertFileSafe(version, primaryFile(version.files), this.safetyPolicy);
+    const downloadUrl = this.client.getDownloadUrl(modelVersionId, { withToken: tokenized });
+
+    return render(args.output, { modelVersionId, downloadUrl, tokenized }, renderDownloadUrl);
+  }
+
+  private async cacheStats(args: z.infer<typeof CacheStatsInput>): Promise<ToolResult> {
+    const stats = await this.client.getCacheStats();
+    return render(args.output, stats, renderCacheStats);
+  }
+
+  private async clearCache(args: z.infer<typeof ClearCacheInput>): Promise<ToolResult> {
+    const removed = await this.client.clearCache(args.endpoint);
+    return render(args.output, { removed, endpoint: args.endpoint }, renderCacheCleared);
+  }
+
+  private async schemaHealth(args: z.infer<typeof SchemaHealthInput>): Promise<ToolResult> {
+    return render(args.output, this.client.getSchemaHealth(), renderSchemaHealth);
+  }
+
+  private async scanLocalModels(args: z.infer<typeof ScanLocalModelsInput>): Promise<ToolResult> {
+    const modelsDir = this.requireModelsDir();
+    const report = await scanLocalModels(this.client, resolveInside(modelsDir, args.path), {
+      recursive: args.recursive,
+      hashCache: this.hashCache(modelsDir),
+    });
+
+    return render(args.output, report, renderLocalScan);
+  }
+
+  private async downloadModelVersion(
+    args: z.infer<typeof DownloadModelVersionInput>,
+    context: ToolContext
+  ): Promise<ToolResult> {
+    const modelsDir = this.requireModelsDir();
+    const result = await downloadModelVersion(this.client, args.modelVersionId, {
+      modelsDir,
+      fileId: args.fileId,
+      hashCache: this.hashCache(modelsDir),
+      safetyPolicy: this.safetyPolicy,
+      stallTimeoutMs: this.options.downloadStallTimeoutMs,
+      onProgress: (downloaded, total) => context.progress(downloaded, total),
+    });
+
+    return render(args.output, result, renderDownload);
+  }
+
+  private async checkModelUpdates(args: z.infer<typeof CheckModelUpdatesInput>): Promise<ToolResult> {
+    const report = await checkModelUpdates(this.client, args);
+    return render(args.output, report, renderModelUpdates);
+  }
+
+  // Resource readers
+  private async readModelResource(params: Record<string, string>): Promise<ResourceView> {
+    const model = await this.client.getModel(parseId(params.id));
+    const data = normalizeModel(model, this.safetyPolicy);
+    return { data, markdown: renderModel(data) };
+  }
+
+  private async readModelVersionResource(params: Record<string, string>): Promise<ResourceView> {
+    const version = await this.client.getModelVersion(parseId(params.id));
+    const data = normalizeModelVersion(version, this.safetyPolicy);
+    return { data, markdown: renderModelVersion(data) };
+  }
+
+  private async readImageResource(params: Record<string, string>): Promise<ResourceView> {
+    const data = normalizeImage(await this.client.getImage(parseId(params.id)));
+    return { data, markdown: renderImage(data) };
+  }
+
+  private async readCreatorResource(params: Record<string, string>): Promise<ResourceView> {
+    // There is no single-creator endpoint; search and take the exact match
+    const { items } = await this.client.getCreators({ query: params.username, limit: 20 });
+    const creator = items.find(item => item.username.toLowerCase() === params.username.toLowerCase());
+    if (!creator) throw new NotFoundError(`No creator named ${params.username}`, { username: params.username });
+
+    const models = await this.client.getModels({ username: creator.username, sort: 'Most Downloaded', limit: TOP_MODELS });
+    const data = normalizeCreatorProfile(creator, models.items, this.options.formatting);
+    return { data, markdown: renderCreatorProfile(data) };
+  }
+
+  private async readTagResource(params: Record<string, string>): Promise<ResourceView> {
+    const { items } = await this.client.getTags({ query: params.name, limit: 20 });
+    const tag = items.find(item => item.name.toLowerCase() === params.name.toLowerCase());
+    if (!tag) throw new NotFoundError(`No tag named ${params.name}`, { tag: params.name });
+
+    const models = await this.client.getModels({ tag: tag.name, sort: 'Most Downloaded', limit: TOP_MODELS });
+    const data = normalizeTagProfile(tag, models.items, this.options.formatting);
+    return { data, markdown: renderTagProfile(data) };
+  }
+
+  // Prompt builders
+  private async findLoraPrompt(args: Record<string, string>): Promise<GetPromptResult> {
+    const response = await this.client.getModels({
+      query: args.style,
+      types: ['LORA'],
+      baseModels: [args.baseModel],
+      sort: 'Highest Rated',
+      limit: 10,
+    });
+    const { models } = normalizeModelList(response, this.options.formatting);
+
+    return promptResult(`LoRAs for "${args.style}" on ${args.baseModel}`,
+      `Find a LoRA that produces the style "${args.style}" and works with the ${args.baseModel} base model.\n\n` +
+      `These are the highest-rated Civitai LoRAs matching the style that have a ${args.baseModel} version:\n\n` +
+      `\`\`\`json\n${JSON.stringify(models, null, 2)}\n\`\`\`\n\n` +
+      (models.length === 0 ? 'The search found nothing; suggest broader search terms or related styles.\n' :
+        'Recommend the best one to three, explaining how each fits the style. For each, give the model ID, ' +
+        'the trigger words to put in the prompt and a starting LoRA weight. Say so if none of them fit.\n')
+    );
+  }
+
+  private async auditModelPrompt(args: Record<string, string>): Promise<GetPromptResult> {
+    const modelVersionId = parseId(args.modelVersionId, 'modelVersionId');
+    const [version, license] = await Promise.all([
+      this.client.getModelVersion(modelVersionId),
+      licenseReport(this.client, { modelVersionIds: [modelVersionId] }),
+    ]);
+    const safety = modelSafetyReport(version, this.safetyPolicy);
+
+    return promptResult(`Audit of ${version.model.name} - ${version.name}`,
+      `Audit the Civitai model version below for production use by a commercial art team.\n\n` +
+      `${renderModelVersion(normalizeModelVersion(version, this.safetyPolicy))}\n\n` +
+      `${renderLicenseReport(license)}\n\n` +
+      `${renderModelSafety(safety)}\n\n` +
+      `Give a verdict (approved, approved with conditions, or rejected). Then list what the license allows ` +
+      `and forbids, any file that fails the safety policy and why, and anything that needs a human to check, ` +
+      `such as license terms beyond Civitai's permission flags.\n`
+    );
+  }
+
+  private async reproduceImagePrompt(args: Record<string, string>): Promise<GetPromptResult> {
+    const imageId = parseId(args.imageId, 'imageId');
+    const image = await this.client.getImage(imageId);
+    if (!image.meta) {
+      throw new NotFoundError(`Image ${imageId} has no generation metadata`, { imageId });
+    }
+    const params = await resolveResources(this.client, fromCivitaiMeta(image.meta));
+    const report = { imageId, params, infotext: toInfotext(params), comfyui: toComfyWorkflow(params) };
+
+    return promptResult(`Reproduce image ${imageId}`,
+      `Explain how to reproduce the Civitai image below as closely as possible.\n\n` +
+      `${renderImage(normalizeImage(image))}\n` +
+      `${renderGenerationParams(report)}\n\n` +
+      `List the checkpoint, LoRAs and embeddings to install (with their Civitai model IDs where known), ` +
+      `then the prompt, negative prompt and settings to use. Point out anything that can't be matched exactly, ` +
+      `such as resources that weren't found on Civitai or settings missing from the metadata.\n`
+    );
+  }
+
+  private async versionChangesPrompt(args: Record<string, string>): Promise<GetPromptResult> {
+    const model = await this.client.getModel(parseId(args.modelId, 'modelId'));
+    const [latest, previous] = model.modelVersions;
+    if (!latest) {
+      throw new NotFoundError(`Model ${model.id} has no published versions`, { modelId: model.id });
+    }
+    const versions = await Promise.all([latest, previous].filter(version => version !== undefined)
+      .map(version => this.client.getModelVersion(version.id)));
+    const [current, before] = versions.map(version => renderModelVersion(normalizeModelVersion(version, this.safetyPolicy)));
+
+    return promptResult(`Changes in ${model.name} - ${latest.name}`,
+      `Summarize what changed in the latest version of the Civitai model "${model.name}".\n\n` +
+      `## Latest version\n\n${current}\n\n` +
+      (before
+        ? `## Previous version\n\n${before}\n\n` +
+          `Compare the two: base model, trigger words, files (format, precision, size), and what the ` +
+          `descriptions say about training or intended use. Finish with whether an existing user should upgrade.\n`
+        : `This is the model's first version; summarize what it offers instead.\n`)
+    );
+  }
+
+  // Downloads share the scan's hash cache, so freshly downloaded files are never hashed twice
+  private hashCache(modelsDir: string): HashCache {
+    return new HashCache(this.options.hashCacheFile || join(modelsDir, HASH_CACHE_FILE));
+  }
+
+  private get safetyPolicy(): SafetyPolicy {
+    return this.options.safetyPolicy ?? DEFAULT_SAFETY_POLICY;
+  }
+
+  private requireModelsDir(): string {
+    if (!this.options.modelsDir) {
+      throw new InvalidArgumentsError('No models directory configured; set CIVITAI_MODELS_DIR');
+    }
+    return this.options.modelsDir;
+  }
+
+  private requireImagesDir(): string {
+    if (!this.options.imagesDir) {
+      throw new InvalidArgumentsError('No images directory configured; set CIVITAI_IMAGES_DIR');
+    }
+    return this.options.imagesDir;
+  }
+
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  /** Closes the connection and the client */
+  async close() {
+    await this.server.close();
+    this.client.close();
+  }
+
+  async run() {
+    const transport = new StdioServerTransport();
+    await this.connect(transport);
+    console.error('Civitai MCP server running on stdio');
+  }
+}
+
+/** Models listed on creator and tag resources */
+const TOP_MODELS = 10;
+
+/**
+ * Resource reads and prompts have no error result like tools do, so failures
+ * become protocol errors that keep the error code in the message.
+ */
+function mcpErrorFor(error: unknown): McpError {
+  const civitaiError = toCivitaiError(error);
+  const code = ['NOT_FOUND', 'INVALID_ARGUMENTS', 'CONTENT_POLICY'].includes(civitaiError.code)
+    ? ErrorCode.InvalidParams
+    : ErrorCode.InternalError;
+  return new McpError(code, redact(`${civitaiError.code}: ${civitaiError.message}`));
+}
+
+/** Resource and prompt arguments arrive as strings */
+function parseId(value: string, name = 'id'): number {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new InvalidArgumentsError(`Invalid ${name}: ${value}`, { [name]: value });
+  }
+  return id;
+}
+
+function promptResult(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+/**
+ * Page size for a list request: the explicit `limit`, else enough to satisfy
+ * `maxItems` in as few requests as the endpoint allows, else the configured default.
+ */
+function pageSize(
+  args: { limit?: number; maxItems?: number },
+  endpointMax: number,
+  defaultLimit?: number
+): number | undefined {
+  if (args.limit !== undefined) return args.limit;
+  if (args.maxItems) return Math.min(args.maxItems, endpointMax);
+  return defaultLimit && Math.min(defaultLimit, endpointMax);
+}
+
+/**
+ * Builds a tool result in the requested format. JSON returns the normalized data
+ * as-is; markdown renders it and appends the withheld count (of list items, or of
+ * a model's sample images) and, for lists, the next cursor as their own content
+ * parts so agents can pick them up verbatim.
+ */
+function render<T>(output: OutputFormat | undefined, data: T, markdown: (data: T) => string): ToolResult {
+  if (output === 'json') {
+    return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+  }
+
+  const content: ToolResult['content'] = [{ type: 'text', text: markdown(data) }];
+  const pagination = (data as { pagination?: Pagination } | null)?.pagination;
+  const withheld = pagination?.withheld ?? (data as { withheldImages?: number } | null)?.withheldImages;
+  if (withheld) {
+    content.push({ type: 'text', text: `Withheld by the content policy: ${withheld} item(s)` });
+  }
+  const nextCursor = pagination?.nextCursor;
+  if (nextCursor) {
+    content.push({ type: 'text', text: `Next cursor: ${nextCursor}` });
+  }
+  return { content };
+}
@@ -0,0 +1,205 @@
+import { Compatibility, baseModelCompatibility } from './base-models.js';
+import { CivitaiClient } from './civitai-client.js';
+import { NotFoundError, toCivitaiError } from './errors.js';
+import { ModelLookup, modelLookup } from './model-lookup.js';
+import { Model } from './types.js';
+
+/** A stack member, identified by exactly one of these; `modelId` means its latest version */
+export interface ResourceRef {
+  modelVersionId?: number;
+  hash?: string;
+  modelId?: number;
+}
+
+export interface Alternative {
+  modelId: number;
+  modelName: string;
+  versionId: number;
+  versionName: string;
+  baseModel?: string;
+  /** Another version of the same model, trained for the checkpoint's base model */
+  sameModel: boolean;
+}
+
+export interface StackEntry {
+  /** `version <id>`, `hash <hash>` or `model <id>`, as it was asked about */
+  input: string;
+  status: 'ok' | 'not-found' | 'error';
+  error?: string;
+  modelId?: number;
+  modelName?: string;
+  type?: string;
+  versionId?: number;
+  versionName?: string;
+  baseModel?: string;
+  trainedWords: string[];
+  /** How the entry's base model fits the checkpoint's */
+  compatibility?: Compatibility;
+  /** Same-base replacements, for resources that don't fit the checkpoint */
+  alternatives?: Alternative[];
+}
+
+export interface StackReport {
+  checkpoint: StackEntry;
+  resources: StackEntry[];
+  /** No resource is known to mismatch the checkpoint */
+  compatible: boolean;
+  warnings: string[];
+  /** Every trigger word the stack's resources need, in stack order */
+  triggerWords: string[];
+}
+
+export interface StackOptions {
+  /** Look up same-base replacements for mismatched resources (default: true) */
+  suggestAlternatives?: boolean;
+}
+
+const MAX_ALTERNATIVES = 3;
+
+function describeRef(ref: ResourceRef): string {
+  if (ref.modelVersionId !== undefined) return `version ${ref.modelVersionId}`;
+  if (ref.hash !== undefined) return `hash ${ref.hash}`;
+  return `model ${ref.modelId}`;
+}
+
+/**
+ * Resolves every member of a generation stack to a model version and checks
+ * each resource's base model against the checkpoint's. Mismatched resources get
+ * same-base alternatives: other versions of the same model first, then the
+ * highest-rated models of the same type and tag.
+ */
+export async function checkStackCompatibility(
+  client: CivitaiClient,
+  checkpointRef: ResourceRef,
+  resourceRefs: ResourceRef[],
+  options: StackOptions = {}
+): Promise<StackReport> {
+  const modelFor = modelLookup(client);
+
+  const resolve = async (ref: ResourceRef): Promise<StackEntry> => {
+    const input = describeRef(ref);
+    if (ref.modelId !== undefined) {
+      const model = await modelFor(ref.modelId);
+      const latest = model.modelVersions[0];
+      if (!latest) throw new NotFoundError(`Model ${model.id} has no published versions`, { modelId: model.id });
+      return {
+        input,
+        status: 'ok',
+        modelId: model.id,
+        modelName: model.name,
+        type: model.type,
+        versionId: latest.id,
+        versionName: latest.name,
+        baseModel: latest.baseModel,
+        trainedWords: latest.trainedWords ?? [],
+      };
+    }
+    const version = ref.modelVersionId !== undefined
+      ? await client.getModelVersion(ref.modelVersionId)
+      : await client.getModelVersionByHash(ref.hash!);
+    return {
+      input,
+      status: 'ok',
+      modelId: version.modelId,
+      modelName: version.model.name,
+      type: version.model.type,
+      versionId: version.id,
+      versionName: version.name,
+      baseModel: version.baseModel,
+      trainedWords: version.trainedWords ?? [],
+    };
+  };
+
+  // The whole check hinges on the checkpoint, so its failures fail the call
+  const checkpoint: StackEntry = { ...await resolve(checkpointRef), compatibility: 'compatible' };
+  const warnings: string[] = [];
+  if (checkpoint.type !== 'Checkpoint') {
+    warnings.push(`${checkpoint.input} (${checkpoint.modelName}) is a ${checkpoint.type}, not a checkpoint`);
+  }
+  if (!checkpoint.baseModel) {
+    warnings.push(`${checkpoint.input} (${checkpoint.modelName}) has no base model; compatibility can't be checked`);
+  }
+
+  const resources = await Promise.all(resourceRefs.map(async (ref): Promise<StackEntry> => {
+    try {
+      const entry = await resolve(ref);
+      return { ...entry, compatibility: baseModelCompatibility(checkpoint.baseModel, entry.baseModel) };
+    } catch (error) {
+      return error instanceof NotFoundError
+        ? { input: describeRef(ref), status: 'not-found', trainedWords: [] }
+        : { input: describeRef(ref), status: 'error', error: toCivitaiError(error).message, trainedWords: [] };
+    }
+  }));
+
+  for (const entry of resources) {
+    if (entry.type === 'Checkpoint') {
+      warnings.push(`${entry.input} (${entry.modelName}) is a checkpoint; a stack loads only one`);
+    }
+    if (entry.compatibility === 'incompatible') {
+      warnings.push(`${entry.input} (${entry.modelName}) is for ${entry.baseModel} and won't load on ${checkpoint.baseModel}`);
+    } else if (entry.compatibility === 'partial') {
+      warnings.push(`${entry.input} (${entry.modelName}) is for ${entry.baseModel}; it loads on ${checkpoint.baseModel} but may work poorly`);
+    }
+  }
+
+  if (options.suggestAlternatives !== false && checkpoint.baseModel) {
+    for (const entry of resources) {
+      if (entry.compatibility === 'partial' || entry.compatibility === 'incompatible') {
+        try {
+          entry.alternatives = await findAlternatives(client, modelFor, entry, checkpoint.baseModel);
+        } catch (error) {
+          warnings.push(`Could not look up alternatives for ${entry.input}: ${toCivitaiError(error).message}`);
+        }
+      }
+    }
+  }
+
+  const triggerWords = [...new Set([checkpoint, ...resources].flatMap(entry => entry.trainedWords))];
+  return {
+    checkpoint,
+    resources,
+    compatible: !resources.some(entry => entry.compatibility === 'partial' || entry.compatibility === 'incompatible'),
+    warnings,
+    triggerWords,
+  };
+}
+
+async function findAlternatives(
+  client: CivitaiClient,
+  modelFor: ModelLookup,
+  entry: StackEntry,
+  baseModel: string
+): Promise<Alternative[]> {
+  const fits = (version: Model['modelVersions'][number]) => baseModelCompatibility(baseModel, version.baseModel) === 'compatible';
+  const alternative = (model: Model, version: Model['modelVersions'][number], sameModel: boolean): Alternative => ({
+    modelId: model.id,
+    modelName: model.name,
+    versionId: version.id,
+    versionName: version.name,
+    baseModel: version.baseModel,
+    sameModel,
+  });
+
+  const own = await modelFor(entry.modelId!);
+  const sameModel = own.modelVersions.find(version => version.id !== entry.versionId && fits(version));
+  const alternatives = sameModel ? [alternative(own, sameModel, true)] : [];
+
+  const search = (tag?: string) => client.getModels({
+    baseModels: [baseModel],
+    types: [entry.type!],
+    tag,
+    sort: 'Highest Rated',
+    limit: MAX_ALTERNATIVES + 1,
+  });
+  // Prefer models sharing the resource's first tag; fall back to the whole type
+  let { items } = await search(own.tags[0]);
+  if (items.length === 0 && own.tags.length > 0) ({ items } = await search());
+
+  for (const model of items) {
+    const version = model.modelVersions.find(fits);
+    if (model.id !== own.id && version && alternatives.length < MAX_ALTERNATIVES) {
+      alternatives.push(alternative(model, version, false));
+    }
+  }
+  return alternatives;
+}
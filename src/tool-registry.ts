@@ -0,0 +1,105 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z, ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ConfigError, InvalidArgumentsError } from './errors.js';
+
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/** Per-call facilities handed to tool handlers alongside their arguments */
+export interface ToolContext {
+  /** Reports progress to the caller; a no-op unless the request carried a progress token */
+  progress(progress: number, total?: number): Promise<void>;
+}
+
+const NO_CONTEXT: ToolContext = {
+  progress: async () => {},
+};
+
+/**
+ * A tool defined once: the zod schema both validates arguments and
+ * generates the JSON Schema advertised in tools/list.
+ */
+export interface ToolDefinition<S extends ZodTypeAny = ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  handler: (args: z.infer<S>, context: ToolContext) => Promise<ToolResult>;
+}
+
+/** Which registered tools are served: the `enabled` ones (all when unset) minus the `disabled` ones */
+export interface ToolSelection {
+  enabled?: string[];
+  disabled?: string[];
+}
+
+export function defineTool<S extends ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(...definitions: ToolDefinition<any>[]) {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool already registered: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /** Drops the tools the selection leaves out; naming a tool that doesn't exist is a config error */
+  select({ enabled, disabled = [] }: ToolSelection) {
+    const unknown = [...(enabled ?? []), ...disabled].filter(name => !this.tools.has(name));
+    if (unknown.length > 0) {
+      throw new ConfigError(`Unknown tools: ${unknown.join(', ')}`, { tools: unknown });
+    }
+    for (const name of [...this.tools.keys()]) {
+      if ((enabled && !enabled.includes(name)) || disabled.includes(name)) {
+        this.tools.delete(name);
+      }
+    }
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()].map(definition => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: toInputSchema(definition.inputSchema),
+    }));
+  }
+
+  /**
+   * Validates `args` against the tool's schema and runs its handler.
+   * Callers must check `has(name)` first.
+   */
+  async call(name: string, args: unknown, context: ToolContext = NO_CONTEXT): Promise<ToolResult> {
+    const definition = this.tools.get(name)!;
+    const parsed = definition.inputSchema.safeParse(args ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      }));
+      throw new InvalidArgumentsError(
+        `Invalid arguments for ${name}: ${issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ')}`,
+        { issues }
+      );
+    }
+    return definition.handler(parsed.data, context);
+  }
+}
+
+function toInputSchema(schema: ZodTypeAny): Tool['inputSchema'] {
+  // Cast through `any`: zodToJsonSchema's generic signature overflows the checker on ZodTypeAny
+  const { $schema, ...jsonSchema } = (zodToJsonSchema as any)(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return { type: 'object', ...jsonSchema };
+}
@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { CommercialUse, ImageSort, ModelType, NSFWLevel, SortOrder, TimePeriod } from './types.js';
+
+// Tool input schemas. These validate arguments before dispatch and are converted
+// to the JSON Schemas advertised through tools/list.
+
+const id = (description: string) => z.number().int().positive().describe(description);
+
+const limit = (min: number, max: number, description: string) =>
+  z.number().int().min(min).max(max).optional().describe(description);
+
+const page = z.number().int().min(1).optional().describe('Page number for pagination');
+
+const modelSort = SortOrder.optional().describe('Sort order for results');
+
+// Shared by every tool
+const output = {
+  output: z.enum(['markdown', 'json']).optional()
+    .describe('Result format: "markdown" (default) for reading, "json" for the normalized objects plus pagination'),
+};
+
+// Shared by every list tool
+const pagination = {
+  cursor: z.string().optional()
+    .describe('Opaque cursor returned by a previous call ("Next cursor: ..."); continues where it stopped'),
+  maxItems: z.number().int().min(1).max(1000).optional()
+    .describe('Follow pages until this many items are collected (1-1000); one page when omitted'),
+};
+
+export const SearchModelsInput = z.object({
+  query: z.string().optional().describe('Search query to filter models by name'),
+  limit: limit(1, 100, 'Number of results (1-100, default 20)'),
+  page,
+  types: z.array(ModelType).optional().describe('Filter by model types'),
+  sort: modelSort,
+  period: TimePeriod.optional().describe('Time period for sorting'),
+  nsfw: z.boolean().optional().describe('Include NSFW content, up to the server\'s content policy'),
+  baseModels: z.array(z.string()).optional()
+    .describe('Filter by base model types (e.g., ["SD 1.5", "SDXL 1.0"])'),
+  allowCommercialUse: CommercialUse.optional()
+    .describe('Only models allowing this commercial use: Image (sell images), RentCivit, Rent (generation services), Sell (sell the model)'),
+  allowDerivatives: z.boolean().optional().describe('Only models whose merges and derivatives may be shared'),
+  allowNoCredit: z.boolean().optional().describe('Only models that may be used without crediting the creator'),
+  allowDifferentLicenses: z.boolean().optional().describe('Only models whose derivatives may use different permissions'),
+  ...pagination,
+  ...output,
+});
+
+export const GetModelInput = z.object({
+  modelId: id('The ID of the model to retrieve'),
+  ...output,
+});
+
+export const GetModelVersionInput = z.object({
+  modelVersionId: id('The ID of the model version to retrieve'),
+  ...output,
+});
+
+export const GetModelVersionByHashInput = z.object({
+  hash: z.string().regex(/^[0-9a-fA-F]+$/, 'Expected a hexadecimal hash')
+    .describe('The hash of the model file (AutoV1, AutoV2, SHA256, CRC32, or Blake3)'),
+  ...output,
+});
+
+export const BrowseImagesInput = z.object({
+  limit: limit(1, 200, 'Number of images to return (1-200, default 100)'),
+  page,
+  modelId: id('Filter images from a specific model').optional(),
+  modelVersionId: id('Filter images from a specific model version').optional(),
+  postId: id('Get images from a specific post').optional(),
+  username: z.string().optional().describe('Filter images by creator username'),
+  nsfw: NSFWLevel.optional().describe('NSFW content level filter, capped at the server\'s content policy'),
+  sort: ImageSort.optional().describe('Sort order for images'),
+  period: TimePeriod.optional().describe('Time period for sorting'),
+  ...pagination,
+  ...output,
+});
+
+export const GetCreatorsInput = z.object({
+  limit: limit(0, 200, 'Number of creators to return (0-200, default 20)'),
+  page,
+  query: z.string().optional().describe('Search query to filter creators by username'),
+  ...pagination,
+  ...output,
+});
+
+export const GetTagsInput = z.object({
+  limit: limit(1, 200, 'Number of tags to return (1-200, default 20)'),
+  page,
+  query: z.string().optional().describe('Search query to filter tags by name'),
+  ...pagination,
+  ...output,
+});
+
+export const GetPopularModelsInput = z.object({
+  period: TimePeriod.optional().describe('Time period for popularity ranking (default: Week)'),
+  limit: limit(1, 100, 'Number of models to return (default: 20)'),
+  ...pagination,
+  ...output,
+});
+
+export const GetLatestModelsInput = z.object({
+  limit: limit(1, 100, 'Number of models to return (default: 20)'),
+  ...pagination,
+  ...output,
+});
+
+export const GetTopRatedModelsInput = z.object({
+  period: TimePeriod.optional().describe('Time period for rating ranking (default: AllTime)'),
+  limit: limit(1, 100, 'Number of models to return (default: 20)'),
+  ...pagination,
+  ...output,
+});
+
+export const SearchModelsByTagInput = z.object({
+  tag: z.string().min(1).describe('Tag name to search for'),
+  limit: limit(1, 100, 'Number of models to return (default: 20)'),
+  sort: modelSort,
+  ...pagination,
+  ...output,
+});
+
+export const SearchModelsByCreatorInput = z.object({
+  username: z.string().min(1).describe('Creator username to search for'),
+  limit: limit(1, 100, 'Number of models to return (default: 20)'),
+  sort: modelSort,
+  ...pagination,
+  ...output,
+});
+
+export const GetModelsByTypeInput = z.object({
+  type: ModelType.describe('Model type to filter by'),
+  limit: limit(1, 100, 'Number of models to return (default: 20)'),
+  sort: modelSort,
+  ...pagination,
+  ...output,
+});
+
+export const GetDownloadUrlInput = z.object({
+  modelVersionId: id('The ID of the model version to get download URL for'),
+  tokenized: z.boolean().optional().describe(
+    'Embed the API key in the URL so it downloads without an Authorization header. Only when the server allows tokenized URLs'
+  ),
+  ...output,
+});
+
+export const CacheStatsInput = z.object({
+  ...output,
+});
+
+export const ClearCacheInput = z.object({
+  endpoint: z.string().optional()
+    .describe('Only purge URLs whose path contains this, e.g. "/models/" or "/images"'),
+  ...output,
+});
+
+export const SchemaHealthInput = z.object({
+  ...output,
+});
+
+export const ScanLocalModelsInput = z.object({
+  path: z.string().optional()
+    .describe('Subdirectory of the models directory to scan (default: the whole directory)'),
+  recursive: z.boolean().optional().describe('Descend into subdirectories (default: true)'),
+  ...output,
+});
+
+export const CheckModelUpdatesInput = z.object({
+  hashes: z.array(z.string().regex(/^[0-9a-fA-F]+$/, 'Expected a hexadecimal hash')).max(100).optional()
+    .describe('File hashes (AutoV2, SHA256, ...) of the installed versions'),
+  modelVersionIds: z.array(z.number().int().positive()).max(100).optional()
+    .describe('IDs of the installed model versions'),
+  ...output,
+}).refine(args => (args.hashes?.length ?? 0) + (args.modelVersionIds?.length ?? 0) > 0, {
+  message: 'Provide at least one hash or model version id',
+});
+
+export const DownloadModelVersionInput = z.object({
+  modelVersionId: id('The ID of the model version to download'),
+  fileId: id('Download this file of the version instead of the primary one').optional(),
+  ...output,
+});
+
+export const GetImageGenerationParamsInput = z.object({
+  imageId: id('ID of a Civitai image whose generation metadata to read').optional(),
+  infotext: z.string().min(1).optional()
+    .describe('A1111-style "parameters" text to parse instead of fetching an image'),
+  resolveResources: z.boolean().optional()
+    .describe('Look up the checkpoint, LoRA and embedding hashes on Civitai (default: true)'),
+  ...output,
+}).refine(args => (args.imageId === undefined) !== (args.infotext === undefined), {
+  message: 'Provide exactly one of imageId or infotext',
+});
+
+export const InspectLocalImageInput = z.object({
+  path: z.string().min(1).describe('Path of a PNG, JPEG or WebP image inside the images directory, relative to it or absolute'),
+  resolveResources: z.boolean().optional()
+    .describe('Look up the checkpoint, LoRA and embedding hashes on Civitai (default: true)'),
+  ...output,
+});
+
+export const SuggestPromptsInput = z.object({
+  modelVersionId: id('ID of the model version to draft prompts for'),
+  sampleSize: limit(1, 100, 'Number of most-reacted sample images to analyze (1-100, default 20)'),
+  templates: limit(1, 20, 'Number of prompt templates to return (1-20, default 5)'),
+  ...output,
+});
+
+export const CompareModelsInput = z.object({
+  modelIds: z.array(z.number().int().positive()).max(10).optional()
+    .describe('Models to compare, each on its latest version'),
+  modelVersionIds: z.array(z.number().int().positive()).max(10).optional()
+    .describe('Specific model versions to compare'),
+  ...output,
+}).refine(args => {
+  const count = (args.modelIds?.length ?? 0) + (args.modelVersionIds?.length ?? 0);
+  return count >= 2 && count <= 10;
+}, {
+  message: 'Provide between 2 and 10 model or model version ids in total',
+});
+
+const resourceRef = z.object({
+  modelVersionId: z.number().int().positive().optional().describe('Model version ID'),
+  hash: z.string().regex(/^[0-9a-fA-F]+$/, 'Expected a hexadecimal hash').optional()
+    .describe('File hash (AutoV2, SHA256, ...)'),
+  modelId: z.number().int().positive().optional().describe('Model ID; its latest version is used'),
+}).refine(ref => [ref.modelVersionId, ref.hash, ref.modelId].filter(value => value !== undefined).length === 1, {
+  message: 'Identify each resource by exactly one of modelVersionId, hash or modelId',
+});
+
+export const CheckStackCompatibilityInput = z.object({
+  checkpoint: resourceRef.describe('The checkpoint the stack runs on'),
+  resources: z.array(resourceRef).min(1).max(20)
+    .describe('LoRAs, embeddings, ControlNets, VAEs, ... used with the checkpoint'),
+  suggestAlternatives: z.boolean().optional()
+    .describe('Look up same-base replacements for mismatched resources (default: true)'),
+  ...output,
+});
+
+export const LicenseReportInput = z.object({
+  modelIds: z.array(z.number().int().positive()).max(50).optional().describe('Models to report on'),
+  modelVersionIds: z.array(z.number().int().positive()).max(50).optional()
+    .describe('Model versions; reported under their parent model'),
+  hashes: z.array(z.string().regex(/^[0-9a-fA-F]+$/, 'Expected a hexadecimal hash')).max(50).optional()
+    .describe('File hashes (AutoV2, SHA256, ...) of models in use'),
+  ...output,
+}).refine(args => (args.modelIds?.length ?? 0) + (args.modelVersionIds?.length ?? 0) + (args.hashes?.length ?? 0) > 0, {
+  message: 'Provide at least one model id, model version id or hash',
+});
+
+export const CheckModelSafetyInput = z.object({
+  modelVersionId: id('ID of the model version to check').optional(),
+  hash: z.string().regex(/^[0-9a-fA-F]+$/, 'Expected a hexadecimal hash').optional()
+    .describe('File hash (AutoV2, SHA256, ...) of the version to check'),
+  ...output,
+}).refine(args => (args.modelVersionId === undefined) !== (args.hash === undefined), {
+  message: 'Provide exactly one of modelVersionId or hash',
+});
@@ -2,6 +2,8 @@ import { z } from 'zod';
 
 // Enums
 export const NSFWLevel = z.enum(['None', 'Soft', 'Mature', 'X']);
+// Civitai's browsing levels, mildest first; responses give them as bit flags (PG = 1 ... XXX = 16)
+export const BrowsingLevel = z.enum(['PG', 'PG13', 'R', 'X', 'XXX']);
 export const ModelType = z.enum([
   'Checkpoint',
   'TextualInversion', 
@@ -16,7 +18,7 @@ export const ModelMode = z.enum(['Archived', 'TakenDown']).nullable().optional()
 export const SortOrder = z.enum(['Highest Rated', 'Most Downloaded', 'Newest']);  
 export const TimePeriod = z.enum(['AllTime', 'Year', 'Month', 'Week', 'Day']);
 export const ImageSort = z.enum(['Most Reactions', 'Most Comments', 'Newest']);
-export const CommercialUse = z.enum(['None', 'Image', 'Rent', 'Sell']);
+export const CommercialUse = z.enum(['None', 'Image', 'RentCivit', 'Rent', 'Sell']);
 export const FileFormat = z.enum(['SafeTensor', 'PickleTensor', 'Other']);
 export const FileSize = z.enum(['full', 'pruned']);
 export const FloatingPoint = z.enum(['fp16', 'fp32', 'bf16']); // Added bf16
@@ -30,6 +32,7 @@ export const MetadataSchema = z.object({
   nextPage: z.string().optional(),
   prevPage: z.string().optional(),
   nextCursor: z.union([z.number(), z.string()]).optional(), // Sometimes string, sometimes number
+  withheld: z.number().optional(), // Added by the client: items its content policy removed
 });
 
 export const StatsSchema = z.object({
@@ -58,14 +61,29 @@ export const FileMetadataSchema = z.object({
   format: FileFormat.nullable().optional(),
 }).optional();
 
+// Every hash Civitai computes for a file; AutoV2 is the first 10 hex characters of SHA256
+export const FileHashesSchema = z.object({
+  AutoV1: z.string().optional(),
+  AutoV2: z.string().optional(),
+  SHA256: z.string().optional(),
+  CRC32: z.string().optional(),
+  BLAKE3: z.string().optional(),
+}).passthrough();
+
+// Object schemas below are .passthrough(): fields Civitai adds later are kept rather than stripped
 export const ModelFileSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  type: z.string().optional(), // Model, Training Data, Config, VAE, ...
   sizeKb: z.number().optional(),
   pickleScanResult: z.string().optional(),
   virusScanResult: z.string().optional(),
   scannedAt: z.string().nullable().optional(),
   primary: z.boolean().optional(),
   metadata: FileMetadataSchema,
-});
+  hashes: FileHashesSchema.optional(),
+  downloadUrl: z.string().optional(),
+}).passthrough();
 
 export const ImageSchema = z.object({
   id: z.number().optional(), // Some API responses don't include ID
@@ -83,7 +101,17 @@ export const ImageSchema = z.object({
   modelVersionIds: z.array(z.number()).optional(),
   type: z.string().optional(),
   browsingLevel: z.number().optional(),
-});
+}).passthrough();
+
+// Release metadata shared by versions embedded in a model and /model-versions responses
+const versionMetadata = {
+  baseModel: z.string().optional(),
+  baseModelType: z.string().nullable().optional(), // Standard, Inpainting, ...
+  publishedAt: z.string().nullable().optional(),
+  availability: z.string().optional(), // Public, EarlyAccess, Private, ...
+  earlyAccessEndsAt: z.string().nullable().optional(),
+  earlyAccessTimeFrame: z.number().optional(), // Days; older responses only
+};
 
 export const ModelVersionSchema = z.object({
   id: z.number(),
@@ -96,8 +124,8 @@ export const ModelVersionSchema = z.object({
   images: z.array(ImageSchema).optional(),
   stats: StatsSchema.optional(),
   index: z.number().optional(),
-  baseModel: z.string().optional(),
-});
+  ...versionMetadata,
+}).passthrough();
 
 export const ModelSchema = z.object({
   id: z.number(),
@@ -111,7 +139,14 @@ export const ModelSchema = z.object({
   stats: StatsSchema.optional(),
   modelVersions: z.array(ModelVersionSchema),
   poi: z.boolean().optional(),
-});
+  nsfwLevel: z.number().optional(), // Bit flags of the browsing levels in the model's content
+  allowNoCredit: z.boolean().optional(),
+  // A list on current responses, a single value on older ones
+  allowCommercialUse: z.union([z.array(CommercialUse), CommercialUse]).optional(),
+  allowDerivatives: z.boolean().optional(),
+  allowDifferentLicense: z.boolean().optional(),
+  withheldImages: z.number().optional(), // Added by the client: sample images its content policy removed
+}).passthrough();
 
 export const TagSchema = z.object({
   name: z.string(),
@@ -143,7 +178,7 @@ export const TagsResponseSchema = z.object({
 export const ModelVersionResponseSchema = z.object({
   id: z.number(),
   name: z.string(),
-  description: z.string(),
+  description: z.string().nullable().optional(),
   model: z.object({
     name: z.string(),
     type: ModelType,
@@ -153,16 +188,19 @@ export const ModelVersionResponseSchema = z.object({
   }),
   modelId: z.number(),
   createdAt: z.string(),
+  ...versionMetadata,
   downloadUrl: z.string(),
   trainedWords: z.array(z.string()),
   files: z.array(ModelFileSchema),
   stats: StatsSchema,
   images: z.array(ImageSchema),
-});
+  withheldImages: z.number().optional(), // Added by the client: sample images its content policy removed
+}).passthrough();
 
 // Type exports
 export type Model = z.infer<typeof ModelSchema>;
 export type ModelVersion = z.infer<typeof ModelVersionSchema>;
+export type ModelFile = z.infer<typeof ModelFileSchema>;
 export type Image = z.infer<typeof ImageSchema>;
 export type Creator = z.infer<typeof CreatorSchema>;
 export type Tag = z.infer<typeof TagSchema>;
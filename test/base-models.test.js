@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { baseModelCompatibility, baseModelFamily } from '../dist/base-models.js';
+
+describe('base models', () => {
+  it('groups Civitai base models into families', () => {
+    assert.deepEqual(baseModelFamily('SD 1.5 LCM'), { family: 'SD 1.x', architecture: 'SD 1' });
+    assert.deepEqual(baseModelFamily('Pony'), { family: 'Pony', architecture: 'SDXL' });
+    assert.deepEqual(baseModelFamily('SD 3.5 Large Turbo'), { family: 'SD 3.5 Large', architecture: 'SD 3.5 Large' });
+    assert.deepEqual(baseModelFamily('Kolors'), { family: 'Kolors', architecture: 'Kolors' });
+    assert.equal(baseModelFamily('Other'), undefined);
+  });
+
+  it('rates compatibility between base models', () => {
+    assert.equal(baseModelCompatibility('SD 1.4', 'SD 1.5'), 'compatible');
+    assert.equal(baseModelCompatibility('SDXL 1.0', 'Illustrious'), 'partial');
+    assert.equal(baseModelCompatibility('SD 1.5', 'SDXL 1.0'), 'incompatible');
+    assert.equal(baseModelCompatibility('Flux.1 D', 'Flux.1 S'), 'compatible');
+    assert.equal(baseModelCompatibility('SD 1.5', undefined), 'unknown');
+  });
+});
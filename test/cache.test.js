@@ -0,0 +1,117 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CivitaiClient } from '../dist/civitai-client.js';
+import { FileCacheStore, MemoryCacheStore, ResponseCache } from '../dist/cache.js';
+import { loadFixture, startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+describe('ResponseCache', () => {
+  let mock;
+
+  before(async () => {
+    mock = await startMockCivitai();
+  });
+
+  after(() => mock.close());
+
+  beforeEach(() => mock.reset());
+
+  it('serves repeated requests from the cache', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore());
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, cache });
+
+    await client.getModel(4201);
+    const again = await client.getModel(4201);
+
+    assert.equal(again.name, 'Realistic Vision V6.0');
+    assert.equal(mock.requests.length, 1);
+    assert.deepEqual(await cache.stats(), { store: 'memory', entries: 1, hits: 1, misses: 1, revalidated: 0 });
+  });
+
+  it('keeps tag lists longer than image feeds', () => {
+    const cache = new ResponseCache();
+    assert.ok(cache.ttlFor(`${mock.baseUrl}/tags`) > cache.ttlFor(`${mock.baseUrl}/images`));
+    assert.ok(cache.ttlFor(`${mock.baseUrl}/creators?page=2`) > cache.ttlFor(`${mock.baseUrl}/images?limit=5`));
+  });
+
+  it('keeps credentials out of keys but files entries per API key', () => {
+    const cache = new ResponseCache();
+    assert.equal(
+      cache.keyFor(`${mock.baseUrl}/tags?token=secret&limit=5`),
+      cache.keyFor(`${mock.baseUrl}/tags?limit=5`)
+    );
+
+    const alice = cache.keyFor(`${mock.baseUrl}/tags?limit=5`, 'alice-secret-key');
+    assert.notEqual(alice, cache.keyFor(`${mock.baseUrl}/tags?limit=5`));
+    assert.notEqual(alice, cache.keyFor(`${mock.baseUrl}/tags?limit=5`, 'bob-secret-key'));
+    assert.ok(!alice.includes('alice-secret-key'));
+  });
+
+  it('revalidates expired entries with ETag and Last-Modified', async () => {
+    const tags = loadFixture('tags.json');
+    mock.override('/api/v1/tags', (req, res) => {
+      if (req.headers['if-none-match'] === '"tags-v1"') {
+        res.writeHead(304);
+        res.end();
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        ETag: '"tags-v1"',
+        'Last-Modified': 'Sat, 13 Jan 2024 10:00:00 GMT',
+      });
+      res.end(JSON.stringify(tags));
+    });
+
+    const cache = new ResponseCache(new MemoryCacheStore(), [[/\/tags$/, -1]]);
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, cache });
+
+    await client.getTags();
+    const revalidated = await client.getTags();
+
+    assert.equal(revalidated.items.length, 3);
+    assert.equal(mock.requests.length, 2);
+    assert.equal(mock.requests[1].headers['if-none-match'], '"tags-v1"');
+    assert.equal(mock.requests[1].headers['if-modified-since'], 'Sat, 13 Jan 2024 10:00:00 GMT');
+    assert.equal((await cache.stats()).revalidated, 1);
+  });
+
+  it('persists entries on disk and clears them by endpoint', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'civitai-cache-'));
+    try {
+      const first = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, cache: new ResponseCache(new FileCacheStore(directory)) });
+      await first.getModel(4201);
+      await first.getTags();
+
+      const cache = new ResponseCache(new FileCacheStore(directory));
+      const second = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, cache });
+      await second.getModel(4201);
+
+      assert.equal(mock.requests.length, 2);
+      assert.equal(await second.clearCache('/models/'), 1);
+      assert.equal((await cache.stats()).entries, 1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('exposes cache_stats and clear_cache tools', async () => {
+    const harness = await connectHarness(mock.baseUrl, { cache: new ResponseCache() });
+    try {
+      await harness.callTool('get_model', { modelId: 4201 });
+      await harness.callTool('get_model', { modelId: 4201 });
+
+      const stats = await harness.callToolText('cache_stats');
+      assert.match(stats, /\*\*Entries:\*\* 1/);
+      assert.match(stats, /\*\*Hit rate:\*\* 50.0%/);
+
+      const cleared = await harness.callToolText('clear_cache', {});
+      assert.match(cleared, /Removed 1 cached response/);
+    } finally {
+      await harness.close();
+    }
+  });
+});
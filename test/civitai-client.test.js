@@ -0,0 +1,158 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CivitaiClient, DEFAULT_BASE_URL } from '../dist/civitai-client.js';
+import { SchemaDriftLog } from '../dist/schema-drift.js';
+import { loadFixture, startMockCivitai } from './support/mock-civitai.js';
+
+describe('CivitaiClient', () => {
+  let mock;
+  let client;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl });
+  });
+
+  after(() => mock.close());
+
+  beforeEach(() => mock.reset());
+
+  it('defaults to the public API', () => {
+    const url = new CivitaiClient().getDownloadUrl(1);
+    assert.ok(url.startsWith(`${DEFAULT_BASE_URL}/download/models/1`));
+  });
+
+  it('uses the configured base URL and ignores a trailing slash', async () => {
+    const trailing = new CivitaiClient(undefined, { baseUrl: `${mock.baseUrl}/` });
+    const tags = await trailing.getTags({ limit: 5 });
+
+    assert.equal(tags.items.length, 3);
+    assert.equal(mock.requests[0].path, '/api/v1/tags');
+  });
+
+  it('serializes array and scalar params into the query string', async () => {
+    await client.getModels({ types: ['LORA', 'Checkpoint'], limit: 5, query: '', nsfw: false });
+
+    const { params } = mock.requests[0];
+    assert.deepEqual(params.getAll('types'), ['LORA', 'Checkpoint']);
+    assert.equal(params.get('limit'), '5');
+    assert.equal(params.get('nsfw'), 'false');
+    assert.equal(params.has('query'), false);
+  });
+
+  it('parses model lists and single models', async () => {
+    const models = await client.getModels();
+    assert.deepEqual(models.items.map(m => m.id), [4201, 7240]);
+
+    const model = await client.getModel(7240);
+    assert.equal(model.type, 'LORA');
+    assert.deepEqual(model.modelVersions[0].trainedWords, ['detailed']);
+  });
+
+  it('looks up model versions by id and by hash', async () => {
+    const version = await client.getModelVersion(130072);
+    assert.equal(version.model.name, 'Realistic Vision V6.0');
+
+    const byHash = await client.getModelVersionByHash('bd969cf2cb');
+    assert.equal(byHash.id, 62833);
+    assert.equal(byHash.modelId, 7240);
+
+    const before = mock.requests.length;
+    await assert.rejects(client.getModelVersionByHash('../../models/7240'), { code: 'INVALID_ARGUMENTS' });
+    await assert.rejects(client.getModelVersionByHash('bd969cf2'.repeat(3)), { code: 'INVALID_ARGUMENTS' });
+    assert.equal(mock.requests.length, before);
+  });
+
+  it('keeps file hashes, release metadata and fields the schemas do not list', async () => {
+    const version = await client.getModelVersion(130072);
+    assert.equal(version.files[0].name, 'realisticVisionV60B1_v60B1VAE.safetensors');
+    assert.equal(version.files[0].hashes.CRC32, '1D33F30A');
+    assert.equal(version.baseModelType, 'Standard');
+    assert.equal(version.updatedAt, loadFixture('model-version-130072.json').updatedAt);
+
+    const model = await client.getModel(7240);
+    assert.deepEqual(model.allowCommercialUse, ['Image', 'RentCivit', 'Rent', 'Sell']);
+    assert.equal(model.allowDerivatives, true);
+  });
+
+  it('parses images, creators and tags', async () => {
+    const images = await client.getImages({ modelVersionId: 130072, limit: 1 });
+    assert.equal(images.items.length, 1);
+    assert.equal(images.metadata.nextCursor, '3905301');
+    assert.equal(mock.requests[0].params.get('modelVersionId'), '130072');
+
+    const creators = await client.getCreators({ query: 'SG' });
+    assert.equal(creators.items[0].username, 'SG_161222');
+
+    const tags = await client.getTags();
+    assert.equal(tags.items[1].name, 'anime');
+  });
+
+  it('applies the content policy to requests and returned items', async () => {
+    const [realistic, lora] = loadFixture('models.json').items;
+    const nsfw = { ...realistic, id: 1, nsfw: true, nsfwLevel: 4 };
+    const poi = { ...lora, id: 2, poi: true };
+    mock.override('/api/v1/models', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ items: [realistic, nsfw, poi], metadata: {} }));
+    });
+
+    const models = await client.getModels({ nsfw: true });
+    assert.deepEqual(models.items.map(m => m.id), [realistic.id, 2]);
+    assert.equal(models.metadata.withheld, 1);
+    assert.equal(mock.requests[0].params.get('nsfw'), 'false');
+
+    const strict = new CivitaiClient(undefined, {
+      baseUrl: mock.baseUrl,
+      contentPolicy: { maxBrowsingLevel: 'R', excludePoi: true },
+    });
+    const filtered = await strict.getModels({ nsfw: true });
+    assert.deepEqual(filtered.items.map(m => m.id), [realistic.id, 1]);
+    assert.equal(mock.requests[1].params.get('nsfw'), 'true');
+
+    const images = await strict.getImages();
+    assert.equal(mock.requests[2].params.get('nsfw'), 'Mature');
+    assert.equal(images.metadata.withheld, 0);
+  });
+
+  it('withholds single models the content policy excludes', async () => {
+    const model = { ...loadFixture('model-7240.json'), poi: true };
+    mock.override('/api/v1/models/7240', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(model));
+    });
+    const strict = new CivitaiClient(undefined, {
+      baseUrl: mock.baseUrl,
+      contentPolicy: { maxBrowsingLevel: 'PG13', excludePoi: true },
+    });
+
+    await assert.rejects(strict.getModel(7240), { code: 'CONTENT_POLICY', message: /depicts a real person/ });
+    assert.equal((await client.getModel(7240)).poi, true);
+  });
+
+  it('sends the API key as a bearer token', async () => {
+    const authed = new CivitaiClient('secret-key', { baseUrl: mock.baseUrl });
+    await authed.getTags();
+
+    assert.equal(mock.requests[0].headers.authorization, 'Bearer secret-key');
+    assert.equal(mock.requests[0].params.has('token'), false);
+  });
+
+  it('rejects on HTTP errors', async () => {
+    await assert.rejects(client.getModel(999), { code: 'NOT_FOUND', message: /404 for \/models\/999: No model with id 999/ });
+  });
+
+  it('rejects responses that do not match the schema in strict mode', async () => {
+    mock.override('/api/v1/tags', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ items: [{ modelCount: 1 }], metadata: {} }));
+    });
+    const strict = new CivitaiClient(undefined, {
+      baseUrl: mock.baseUrl,
+      schemaMode: 'strict',
+      driftLog: new SchemaDriftLog(() => {}),
+    });
+
+    await assert.rejects(strict.getTags(), { code: 'SCHEMA_DRIFT', message: /\/tags: items\.0\.name: Required/ });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, redactConfig } from '../dist/config.js';
+
+describe('config', () => {
+  let directory;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'civitai-config-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('defaults to the built-in settings', () => {
+    const config = loadConfig({ env: {} });
+
+    assert.equal(config.baseUrl, 'https://civitai.com/api/v1');
+    assert.equal(config.timeoutMs, 30_000);
+    assert.deepEqual(config.rateLimit, { requestsPerSecond: 5, burst: 10 });
+    assert.deepEqual(config.formatting, { descriptionLength: 200, maxTags: 5 });
+    assert.deepEqual(config.contentPolicy, { maxBrowsingLevel: 'PG13', excludePoi: false });
+    assert.deepEqual(config.tools, { disabled: [] });
+    assert.equal(config.cache.store, 'memory');
+    assert.equal(config.transport, 'stdio');
+    assert.equal(config.defaultLimit, undefined);
+  });
+
+  it('layers the file, then the environment, then CLI flags', async () => {
+    const file = join(directory, 'civitai.yaml');
+    await writeFile(file, [
+      'timeoutMs: 5000',
+      'formatting:',
+      '  maxTags: 8',
+      'tools:',
+      '  disabled: [download_model_version]',
+      'contentPolicy:',
+      '  maxBrowsingLevel: R',
+      'http:',
+      '  port: 8080',
+    ].join('\n'));
+
+    const config = loadConfig({
+      args: ['--config', file, '--port=9090', '--http'],
+      env: { CIVITAI_TIMEOUT_MS: '7000', CIVITAI_MCP_PORT: '8181', CIVITAI_EXCLUDE_POI: 'true', CIVITAI_CACHE: '' },
+    });
+
+    assert.equal(config.timeoutMs, 7000);
+    assert.equal(config.formatting.maxTags, 8);
+    assert.equal(config.formatting.descriptionLength, 200);
+    assert.deepEqual(config.tools.disabled, ['download_model_version']);
+    assert.deepEqual(config.contentPolicy, { maxBrowsingLevel: 'R', excludePoi: true });
+    assert.equal(config.http.port, 9090);
+    assert.equal(config.transport, 'http');
+    assert.equal(config.cache.store, 'memory');
+  });
+
+  it('reads JSON files named by CIVITAI_CONFIG', async () => {
+    const file = join(directory, 'civitai.json');
+    await writeFile(file, JSON.stringify({ defaultLimit: 50, tools: { enabled: ['search_models'] } }));
+
+    const config = loadConfig({ env: { CIVITAI_CONFIG: file, CIVITAI_DISABLED_TOOLS: 'get_tags, get_creators' } });
+
+    assert.equal(config.defaultLimit, 50);
+    assert.deepEqual(config.tools, { enabled: ['search_models'], disabled: ['get_tags', 'get_creators'] });
+  });
+
+  it('reports every invalid setting at once', async () => {
+    const file = join(directory, 'invalid.json');
+    await writeFile(file, JSON.stringify({ timeoutMs: -1, formating: {} }));
+
+    assert.throws(
+      () => loadConfig({ args: ['--config', file], env: { CIVITAI_MAX_BROWSING_LEVEL: 'NC17' } }),
+      error => {
+        assert.equal(error.code, 'INVALID_CONFIG');
+        assert.equal(error.details.file, file);
+        assert.deepEqual(error.details.issues.map(issue => issue.path), ['timeoutMs', 'contentPolicy.maxBrowsingLevel', '']);
+        assert.match(error.message, /Unrecognized key\(s\) in object: 'formating'/);
+        return true;
+      }
+    );
+  });
+
+  it('rejects unknown flags and unreadable files', () => {
+    assert.throws(() => loadConfig({ args: ['--verbose'], env: {} }), { code: 'INVALID_CONFIG', message: 'Unknown option: --verbose' });
+    assert.throws(() => loadConfig({ args: ['--port'], env: {} }), { message: 'Missing value for --port' });
+    assert.throws(
+      () => loadConfig({ args: ['--config', join(directory, 'missing.yaml')], env: {} }),
+      { code: 'INVALID_CONFIG', message: /Cannot read config file/ }
+    );
+  });
+
+  it('reads the API key from a secret file', async () => {
+    const file = join(directory, 'civitai_api_key');
+    await writeFile(file, 'file-secret-key\n');
+
+    assert.equal(loadConfig({ args: ['--api-key-file', file], env: {} }).apiKey, 'file-secret-key');
+    assert.throws(
+      () => loadConfig({ env: { CIVITAI_API_KEY_FILE: file, CIVITAI_API_KEY: 'env-key' } }),
+      { code: 'INVALID_CONFIG', message: 'Set apiKey or apiKeyFile, not both' }
+    );
+
+    const configFile = join(directory, 'key-file.json');
+    await writeFile(configFile, JSON.stringify({ apiKeyFile: file }));
+    assert.equal(loadConfig({ env: { CIVITAI_CONFIG: configFile, CIVITAI_API_KEY: 'env-key' } }).apiKey, 'env-key');
+    assert.equal(
+      loadConfig({ args: ['--api-key-file', file], env: { CIVITAI_API_KEY: 'env-key' } }).apiKey,
+      'file-secret-key'
+    );
+
+    const empty = join(directory, 'empty_key');
+    await writeFile(empty, '  \n');
+    assert.throws(() => loadConfig({ env: { CIVITAI_API_KEY_FILE: empty } }), { message: `Secret file ${empty} is empty` });
+    assert.throws(
+      () => loadConfig({ env: { CIVITAI_API_KEY_FILE: join(directory, 'missing') } }),
+      { message: /Cannot read secret file .*missing \(ENOENT\)/ }
+    );
+  });
+
+  it('masks secrets when printed', () => {
+    const config = loadConfig({ env: { CIVITAI_API_KEY: 'secret', CIVITAI_MCP_AUTH_TOKENS: 'a,b' } });
+    const printed = redactConfig(config);
+
+    assert.equal(printed.apiKey, '********');
+    assert.deepEqual(printed.http.authTokens, ['********', '********']);
+    assert.equal(config.apiKey, 'secret');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_CONTENT_POLICY,
+  filterModelImages,
+  filterVersionImages,
+  imageLevel,
+  imagesNsfwParam,
+  modelWithheldReasons,
+  modelsNsfwParam,
+} from '../dist/content-policy.js';
+
+const image = fields => ({ url: 'https://example.com/1.jpeg', hash: 'x', width: 1, height: 1, ...fields });
+
+describe('content policy', () => {
+  it('reads image levels from flags, level names and the nsfw flag', () => {
+    assert.equal(imageLevel(image({ browsingLevel: 4 })), 2);
+    assert.equal(imageLevel(image({ nsfwLevel: 16 })), 4);
+    assert.equal(imageLevel(image({ nsfwLevel: 'Soft' })), 1);
+    assert.equal(imageLevel(image({ nsfwLevel: 'Extreme' })), 4);
+    assert.equal(imageLevel(image({ nsfw: true })), 3);
+    assert.equal(imageLevel(image({})), 0);
+  });
+
+  it('withholds models above the level or of real people', () => {
+    const policy = { maxBrowsingLevel: 'R', excludePoi: true };
+
+    assert.deepEqual(modelWithheldReasons(policy, { nsfw: true, nsfwLevel: 1 | 8, poi: true }), [
+      'rated X, above the R limit',
+      'depicts a real person',
+    ]);
+    assert.deepEqual(modelWithheldReasons(policy, { nsfw: true, nsfwLevel: 4 }), []);
+    assert.deepEqual(modelWithheldReasons(DEFAULT_CONTENT_POLICY, { nsfw: true }), ['rated X, above the PG13 limit']);
+  });
+
+  it('counts the sample images it drops from models and versions', () => {
+    const images = [image({ nsfwLevel: 'None' }), image({ nsfwLevel: 'X' }), image({ nsfwLevel: 'Extreme' })];
+    const model = { nsfw: false, modelVersions: [{ id: 1, images }, { id: 2, images: images.slice(1) }, { id: 3 }] };
+
+    const filtered = filterModelImages(DEFAULT_CONTENT_POLICY, model);
+    assert.deepEqual(filtered.modelVersions.map(version => version.images?.length), [1, 0, undefined]);
+    assert.equal(filtered.withheldImages, 4);
+    assert.equal(filterVersionImages(DEFAULT_CONTENT_POLICY, { id: 1, images }).withheldImages, 2);
+  });
+
+  it('caps the request filters at the policy level', () => {
+    assert.equal(modelsNsfwParam(DEFAULT_CONTENT_POLICY, true), false);
+    assert.equal(modelsNsfwParam({ maxBrowsingLevel: 'X', excludePoi: false }, true), true);
+
+    assert.equal(imagesNsfwParam(DEFAULT_CONTENT_POLICY, undefined), 'Soft');
+    assert.equal(imagesNsfwParam(DEFAULT_CONTENT_POLICY, 'X'), 'Soft');
+    assert.equal(imagesNsfwParam(DEFAULT_CONTENT_POLICY, false), 'None');
+    assert.equal(imagesNsfwParam({ maxBrowsingLevel: 'R', excludePoi: false }, true), 'Mature');
+    assert.equal(imagesNsfwParam({ maxBrowsingLevel: 'XXX', excludePoi: false }, undefined), undefined);
+  });
+});
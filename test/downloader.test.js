@@ -0,0 +1,102 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CivitaiClient } from '../dist/civitai-client.js';
+import { downloadModelVersion, parseContentDisposition } from '../dist/downloader.js';
+import { DOWNLOAD_BODY, startMockCivitai } from './support/mock-civitai.js';
+
+describe('parseContentDisposition', () => {
+  it('reads quoted, bare and RFC 5987 file names', () => {
+    assert.equal(parseContentDisposition('attachment; filename="add_detail.safetensors"'), 'add_detail.safetensors');
+    assert.equal(parseContentDisposition('attachment; filename=model.ckpt'), 'model.ckpt');
+    assert.equal(
+      parseContentDisposition(`attachment; filename="fallback.safetensors"; filename*=UTF-8''d%C3%A9tail.safetensors`),
+      'détail.safetensors'
+    );
+  });
+
+  it('drops directory parts and rejects empty names', () => {
+    assert.equal(parseContentDisposition('attachment; filename="../../etc/passwd"'), 'passwd');
+    assert.equal(parseContentDisposition('attachment; filename="..\\\\evil.ckpt"'), 'evil.ckpt');
+    assert.equal(parseContentDisposition('attachment; filename=".."'), undefined);
+    assert.equal(parseContentDisposition(null), undefined);
+  });
+});
+
+describe('downloadModelVersion', () => {
+  let mock;
+  let modelsDir;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    modelsDir = await mkdtemp(join(tmpdir(), 'civitai-download-'));
+  });
+
+  after(async () => {
+    await mock.close();
+    await rm(modelsDir, { recursive: true, force: true });
+  });
+
+  it('starts over when the partial file is already complete (416)', async () => {
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl });
+    await mkdir(join(modelsDir, 'LORA'));
+    await writeFile(join(modelsDir, 'LORA', '.62833-49071.part'), DOWNLOAD_BODY);
+
+    const result = await downloadModelVersion(client, 62833, { modelsDir });
+
+    assert.equal(result.resumedFrom, 0);
+    assert.equal(result.verified, true);
+    assert.deepEqual(await readFile(result.path), DOWNLOAD_BODY);
+  });
+
+  it('abandons a download that stops sending data, keeping the partial file', async () => {
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, retry: { maxRetries: 0 } });
+    const stallDir = join(modelsDir, 'stall');
+    mock.override('/storage/model-62833.safetensors', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': DOWNLOAD_BODY.length });
+      res.write(DOWNLOAD_BODY.subarray(0, 10));
+    });
+    try {
+      await assert.rejects(
+        downloadModelVersion(client, 62833, { modelsDir: stallDir, stallTimeoutMs: 50 }),
+        { code: 'NETWORK_ERROR', message: 'Network error: download stalled: no data received for 50ms' }
+      );
+      assert.equal((await stat(join(stallDir, 'LORA', '.62833-49071.part'))).size, 10);
+    } finally {
+      mock.reset();
+    }
+  });
+
+  it('leaves a different file with the same name alone', async () => {
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl });
+    const ownDir = join(modelsDir, 'occupied');
+    await mkdir(join(ownDir, 'LORA'), { recursive: true });
+    await writeFile(join(ownDir, 'LORA', 'model-62833.safetensors'), 'my own weights');
+
+    await assert.rejects(downloadModelVersion(client, 62833, { modelsDir: ownDir }), { code: 'FILE_EXISTS' });
+    assert.equal(await readFile(join(ownDir, 'LORA', 'model-62833.safetensors'), 'utf8'), 'my own weights');
+    await assert.rejects(stat(join(ownDir, 'LORA', '.62833-49071.part')), { code: 'ENOENT' });
+  });
+
+  it('refuses files without a published SHA256 before fetching anything', async () => {
+    mock.reset();
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl });
+    const version = await (await fetch(`${mock.baseUrl}/model-versions/62833`)).json();
+    delete version.files[0].hashes.SHA256;
+    mock.override('/api/v1/model-versions/62833', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(version));
+    });
+    try {
+      await assert.rejects(downloadModelVersion(client, 62833, { modelsDir: join(modelsDir, 'unhashed') }), {
+        code: 'SAFETY_POLICY',
+        message: /no SHA256 is published to verify the download against/,
+      });
+      assert.ok(!mock.requests.some(r => r.path.startsWith('/storage/')));
+    } finally {
+      mock.reset();
+    }
+  });
+});
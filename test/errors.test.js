@@ -0,0 +1,119 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { CivitaiClient } from '../dist/civitai-client.js';
+import {
+  ApiError,
+  NetworkError,
+  NotFoundError,
+  SchemaDriftError,
+  UnauthorizedError,
+} from '../dist/errors.js';
+import { SchemaDriftLog } from '../dist/schema-drift.js';
+import { startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+function respond(status, body) {
+  return (_req, res) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+}
+
+describe('error taxonomy', () => {
+  let mock;
+  let client;
+  let harness;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    client = new CivitaiClient(undefined, {
+      baseUrl: mock.baseUrl,
+      retry: { maxRetries: 1, baseDelayMs: 1 },
+      driftLog: new SchemaDriftLog(() => {}),
+    });
+    harness = await connectHarness(mock.baseUrl, { retry: { maxRetries: 0 } });
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  beforeEach(() => mock.reset());
+
+  it('maps HTTP statuses to error classes', async () => {
+    await assert.rejects(client.getModel(999), NotFoundError);
+
+    mock.override('/api/v1/model-versions/130072', respond(401, { error: 'Unauthorized' }));
+    await assert.rejects(client.getModelVersion(130072), error =>
+      error instanceof UnauthorizedError && error.toJSON().status === 401
+    );
+
+    mock.override('/api/v1/tags', respond(500, {}));
+    await assert.rejects(client.getTags(), error => error instanceof ApiError && error.status === 500);
+  });
+
+  it('maps zod failures to SchemaDriftError with the offending path', async () => {
+    mock.override('/api/v1/models/4201', respond(200, { id: 4201, name: 'Broken' }));
+
+    await assert.rejects(client.getModel(4201), error => {
+      assert.ok(error instanceof SchemaDriftError);
+      assert.equal(error.details.endpoint, '/models/4201');
+      assert.ok(error.details.issues.some(issue => issue.path === 'creator'));
+      return true;
+    });
+  });
+
+  it('maps connection failures to NetworkError', async () => {
+    mock.override('/api/v1/tags', req => req.socket.destroy());
+
+    await assert.rejects(client.getTags(), error => error instanceof NetworkError && error.code === 'NETWORK_ERROR');
+  });
+
+  it('sets isError and a machine-readable code on tool results', async () => {
+    mock.override('/api/v1/model-versions/130072', respond(403, { error: 'Early access' }));
+
+    const result = await harness.callTool('get_model_version', { modelVersionId: 130072 });
+
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /^Error: Civitai returned 403/);
+    assert.deepEqual(JSON.parse(result.content[1].text).error, {
+      code: 'UNAUTHORIZED',
+      message: 'Civitai returned 403 for /model-versions/130072: Early access',
+      status: 403,
+      endpoint: '/model-versions/130072',
+    });
+  });
+
+  it('rejects missing required arguments before calling the API', async () => {
+    const result = await harness.callTool('get_model', {});
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'INVALID_ARGUMENTS');
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('answers unknown tools with an MCP protocol error', async () => {
+    await assert.rejects(harness.callTool('no_such_tool', {}), error => {
+      assert.ok(error instanceof McpError);
+      assert.equal(error.code, ErrorCode.InvalidParams);
+      assert.match(error.message, /Unknown tool: no_such_tool/);
+      return true;
+    });
+  });
+
+  it('masks the API key in tool errors', async () => {
+    const keyed = await connectHarness(mock.baseUrl, { apiKey: 'leaky-secret-key', retry: { maxRetries: 0 } });
+    try {
+      mock.override('/api/v1/tags', respond(403, { error: 'Key leaky-secret-key may not list tags' }));
+      const result = await keyed.callTool('get_tags', {});
+
+      assert.equal(result.isError, true);
+      assert.equal(result.content[0].text, 'Error: Civitai returned 403 for /tags: Key [REDACTED] may not list tags');
+      assert.ok(!result.content[1].text.includes('leaky-secret-key'));
+    } finally {
+      await keyed.close();
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as format from '../dist/formatters.js';
+import {
+  CreatorsResponseSchema,
+  ImagesResponseSchema,
+  ModelSchema,
+  ModelVersionResponseSchema,
+  ModelsResponseSchema,
+  TagsResponseSchema,
+} from '../dist/types.js';
+import { loadFixture } from './support/mock-civitai.js';
+import { assertSnapshot } from './support/snapshot.js';
+
+// Fixtures parsed the same way CivitaiClient parses live responses
+const models = { ...ModelsResponseSchema.parse(loadFixture('models.json')), cursor: 'bmV4dA' };
+const model = ModelSchema.parse(loadFixture('model-4201.json'));
+const version = ModelVersionResponseSchema.parse(loadFixture('model-version-130072.json'));
+const images = ImagesResponseSchema.parse(loadFixture('images.json'));
+const creators = CreatorsResponseSchema.parse(loadFixture('creators.json'));
+const tags = TagsResponseSchema.parse(loadFixture('tags.json'));
+
+describe('markdown formatters', () => {
+  const list = format.normalizeModelList(models);
+
+  it('renders model lists', () => {
+    assertSnapshot('search-models.md', format.renderModelSearch(list));
+    assertSnapshot('popular-models.md', format.renderPopularModels(list, 'Week'));
+    assertSnapshot('latest-models.md', format.renderLatestModels(list));
+    assertSnapshot('top-rated-models.md', format.renderTopRatedModels(list, 'AllTime'));
+    assertSnapshot('models-by-tag.md', format.renderModelsByTag(list, 'realistic'));
+    assertSnapshot('models-by-creator.md', format.renderModelsByCreator(list, 'SG_161222'));
+    assertSnapshot('models-by-type.md', format.renderModelsByType(list, 'Checkpoint'));
+  });
+
+  it('renders a single model and model version', () => {
+    const normalizedVersion = format.normalizeModelVersion(version);
+
+    assertSnapshot('model.md', format.renderModel(format.normalizeModel(model)));
+    assertSnapshot('model-version.md', format.renderModelVersion(normalizedVersion));
+    assertSnapshot('model-version-by-hash.md', format.renderModelVersionByHash(normalizedVersion, '15012C538F'));
+  });
+
+  it('renders images, creators and tags', () => {
+    assertSnapshot('images.md', format.renderImages(format.normalizeImageList(images)));
+    assertSnapshot('creators.md', format.renderCreators(format.normalizeCreatorList(creators)));
+    assertSnapshot('tags.md', format.renderTags(format.normalizeTagList(tags)));
+  });
+
+  it('uses real newlines and locale-independent dates', () => {
+    const text = format.renderModel(format.normalizeModel(model));
+
+    assert.ok(!text.includes('\\n'));
+    assert.match(text, /Created: 2024-01-12/);
+    assert.match(text, /\*\*Downloads:\*\* 1,523,401/);
+  });
+
+  it('shows unparseable dates as sent instead of failing', () => {
+    assert.equal(format.formatDate('2024-01-12T09:30:00.000Z'), '2024-01-12');
+    assert.equal(format.formatDate('sometime soon'), 'sometime soon');
+    assert.equal(format.formatDate(undefined), 'Unknown');
+  });
+
+  it('exposes the cursor in normalized pagination', () => {
+    assert.deepEqual(list.pagination, {
+      currentPage: 1,
+      totalPages: 1,
+      totalItems: 2,
+      hasNextPage: true,
+      nextCursor: 'bmV4dA',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContentPolicyError, NotFoundError } from '../dist/errors.js';
+import { fromCivitaiMeta, parseInfotext, resolveResources, toComfyWorkflow, toInfotext } from '../dist/generation-params.js';
+
+const INFOTEXT = [
+  'masterpiece, <lora:add_detail:0.8>, castle on a hill',
+  'Negative prompt: lowres, bad anatomy',
+  'Steps: 25, Sampler: DPM++ 2M Karras, CFG scale: 6.5, Seed: 1234, Size: 768x512, Model hash: 15012c538f, ' +
+    'Model: realisticVision, Clip skip: 2, Hires upscale: 2, Lora hashes: "add_detail: bd969cf2cb"',
+].join('\n');
+
+describe('generation params', () => {
+  it('parses A1111 infotext and merges prompt LoRA tags with their hashes', () => {
+    const params = parseInfotext(INFOTEXT);
+
+    assert.equal(params.prompt, 'masterpiece, <lora:add_detail:0.8>, castle on a hill');
+    assert.equal(params.negativePrompt, 'lowres, bad anatomy');
+    assert.deepEqual(
+      [params.steps, params.sampler, params.cfgScale, params.seed, params.width, params.height, params.clipSkip],
+      [25, 'DPM++ 2M Karras', 6.5, 1234, 768, 512, 2]
+    );
+    assert.deepEqual(params.extra, { 'Hires upscale': '2' });
+    assert.deepEqual(params.resources, [
+      { type: 'checkpoint', name: 'realisticVision', hash: '15012c538f' },
+      { type: 'lora', name: 'add_detail', hash: 'bd969cf2cb', weight: 0.8 },
+    ]);
+  });
+
+  it('round-trips through toInfotext', () => {
+    const params = parseInfotext(INFOTEXT);
+
+    assert.deepEqual(parseInfotext(toInfotext(params)), params);
+  });
+
+  it('reads Civitai generator resources', () => {
+    const params = fromCivitaiMeta({
+      prompt: 'a fox',
+      civitaiResources: [{ type: 'checkpoint', modelVersionId: 130072 }, { type: 'lora', modelVersionId: 62833, weight: 0.5 }],
+    });
+
+    assert.deepEqual(params.resources.map(r => [r.type, r.modelVersionId, r.weight]), [
+      ['checkpoint', 130072, undefined],
+      ['lora', 62833, 0.5],
+    ]);
+  });
+
+  it('reads the JSON resource list the Civitai generator writes', () => {
+    const params = parseInfotext(
+      'a fox\nSteps: 20, Civitai resources: [{"type":"checkpoint","modelVersionId":130072},' +
+      '{"type":"lora","weight":0.8,"modelVersionId":62833}], Civitai metadata: {}, Version: v1.10'
+    );
+
+    assert.deepEqual(params.resources.map(r => [r.type, r.modelVersionId, r.weight]), [
+      ['checkpoint', 130072, undefined],
+      ['lora', 62833, 0.8],
+    ]);
+    assert.deepEqual(params.extra, { Version: 'v1.10' });
+  });
+
+  it('builds a ComfyUI prompt with LoRA loaders and mapped sampler', () => {
+    const nodes = toComfyWorkflow(parseInfotext(INFOTEXT));
+    const byType = type => Object.entries(nodes).find(([, node]) => node.class_type === type);
+
+    const [loraId, lora] = byType('LoraLoader');
+    assert.equal(lora.inputs.lora_name, 'add_detail.safetensors');
+    assert.equal(lora.inputs.strength_model, 0.8);
+    const [, clipSkip] = byType('CLIPSetLastLayer');
+    assert.deepEqual(clipSkip.inputs, { stop_at_clip_layer: -2, clip: [loraId, 1] });
+    const [, sampler] = byType('KSampler');
+    assert.equal(sampler.inputs.sampler_name, 'dpmpp_2m');
+    assert.equal(sampler.inputs.scheduler, 'karras');
+    assert.deepEqual(sampler.inputs.model, [loraId, 0]);
+    assert.equal(byType('CLIPTextEncode')[1].inputs.text, 'masterpiece, castle on a hill');
+  });
+
+  it('marks withheld resources and resolves the rest', async () => {
+    const lookedUp = [];
+    const client = {
+      async getModelVersionByHash(hash) {
+        lookedUp.push(hash);
+        if (hash === '15012c538f') throw new ContentPolicyError('Model version 130072 is withheld by the content policy');
+        throw new NotFoundError('Model not found');
+      },
+      async getModelVersion(id) {
+        return { id, modelId: 7240, name: 'v1.0', model: { name: 'Detail Tweaker LoRA', type: 'LORA' } };
+      },
+    };
+    const params = parseInfotext(INFOTEXT);
+    params.resources.push(
+      { type: 'lora', name: 'unknown', hash: 'ffffffffff' },
+      { type: 'lora', name: 'forged', hash: '../../models/7240' },
+      { type: 'lora', modelVersionId: 62833 }
+    );
+
+    const { resources } = await resolveResources(client, params);
+
+    assert.deepEqual(resources.map(r => [r.type, r.withheld ?? false, r.civitai?.modelId]), [
+      ['checkpoint', true, undefined],
+      ['lora', false, undefined],
+      ['lora', false, undefined],
+      ['lora', false, undefined],
+      ['lora', false, 7240],
+    ]);
+    assert.ok(!lookedUp.includes('../../models/7240'));
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockCivitai } from './support/mock-civitai.js';
+import { CivitaiClient } from '../dist/civitai-client.js';
+import { CivitaiMCPServer } from '../dist/server.js';
+import { HttpTransport, httpTransportFromConfig } from '../dist/http-transport.js';
+import { loadConfig } from '../dist/config.js';
+import { redact } from '../dist/secrets.js';
+import { MemoryCacheStore, ResponseCache } from '../dist/cache.js';
+
+/**
+ * A minimal MCP-over-SSE caller: opens the event stream, then posts JSON-RPC
+ * requests to the endpoint it announces and waits for the matching responses.
+ */
+async function openSession(baseUrl, headers = {}) {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}/sse`, { headers, signal: controller.signal });
+  if (response.status !== 200) {
+    return { status: response.status, body: await response.json() };
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  const nextEvent = async () => {
+    while (!buffer.includes('\n\n')) {
+      const { value, done } = await reader.read();
+      if (done) throw new Error('SSE stream ended');
+      buffer += value;
+    }
+    const [raw] = buffer.split('\n\n', 1);
+    buffer = buffer.slice(raw.length + 2);
+    return Object.fromEntries(raw.split('\n').map(line => {
+      const colon = line.indexOf(':');
+      return [line.slice(0, colon), line.slice(colon + 1).trim()];
+    }));
+  };
+
+  const endpoint = new URL((await nextEvent()).data, baseUrl);
+  let nextId = 1;
+
+  const post = (message, postHeaders = headers) => fetch(endpoint, {
+    method: 'POST',
+    headers: { ...postHeaders, 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+  });
+
+  return {
+    status: 200,
+    endpoint,
+    post,
+    async request(method, params = {}) {
+      const id = nextId++;
+      const posted = await post({ jsonrpc: '2.0', id, method, params });
+      assert.equal(posted.status, 202);
+      for (;;) {
+        const message = JSON.parse((await nextEvent()).data);
+        if (message.id === id) return message;
+      }
+    },
+    async initialize() {
+      const result = await this.request('initialize', {
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'civitai-mcp-test', version: '1.0.0' },
+      });
+      await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+      return result;
+    },
+    close() {
+      controller.abort();
+    },
+  };
+}
+
+describe('HTTP transport', () => {
+  let mock;
+  let transport;
+  let baseUrl;
+  const sessionKeys = [];
+
+  before(async () => {
+    mock = await startMockCivitai();
+    const cache = new ResponseCache(new MemoryCacheStore());
+    transport = new HttpTransport({
+      port: 0,
+      authTokens: ['team-token', 'other-token'],
+      allowCallerKeys: true,
+      apiKey: 'shared-key',
+      corsOrigins: ['https://app.example.com'],
+      createSession: apiKey => {
+        sessionKeys.push(apiKey);
+        return new CivitaiMCPServer(new CivitaiClient(apiKey, { baseUrl: mock.baseUrl, cache }), {});
+      },
+    });
+    baseUrl = await transport.listen();
+  });
+
+  after(async () => {
+    await transport.close();
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    sessionKeys.length = 0;
+  });
+
+  it('reports health without authentication', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { status: 'ok', sessions: 0 });
+  });
+
+  it('rejects sessions without a valid bearer token', async () => {
+    const missing = await openSession(baseUrl);
+    const wrong = await openSession(baseUrl, { Authorization: 'Bearer nope' });
+
+    assert.equal(missing.status, 401);
+    assert.equal(missing.body.code, 'UNAUTHORIZED');
+    assert.equal(wrong.status, 401);
+    assert.equal(sessionKeys.length, 0);
+  });
+
+  it('serves MCP over SSE and shares cached responses only between callers on the same key', async () => {
+    const alice = await openSession(baseUrl, { Authorization: 'Bearer team-token', 'X-Civitai-Api-Key': 'alice-key' });
+    const bob = await openSession(baseUrl, { Authorization: 'Bearer other-token' });
+    const carol = await openSession(baseUrl, { Authorization: 'Bearer team-token' });
+    try {
+      const init = await alice.initialize();
+      assert.equal(init.result.serverInfo.name, 'civitai-mcp-server');
+      await bob.initialize();
+      await carol.initialize();
+      assert.equal(transport.sessionCount, 3);
+      assert.deepEqual(sessionKeys, ['alice-key', 'shared-key', 'shared-key']);
+
+      const call = { name: 'get_model', arguments: { modelId: 4201, output: 'json' } };
+      const first = await alice.request('tools/call', call);
+      const second = await bob.request('tools/call', call);
+      const third = await carol.request('tools/call', call);
+
+      assert.equal(JSON.parse(first.result.content[0].text).id, 4201);
+      assert.deepEqual(second.result, first.result);
+      assert.deepEqual(third.result, first.result);
+      const modelRequests = mock.requests.filter(r => r.path === '/api/v1/models/4201');
+      assert.deepEqual(
+        modelRequests.map(r => r.headers.authorization),
+        ['Bearer alice-key', 'Bearer shared-key']
+      );
+    } finally {
+      alice.close();
+      bob.close();
+      carol.close();
+    }
+  });
+
+  it('stops masking a caller key once its session has closed', async () => {
+    const session = await openSession(baseUrl, { Authorization: 'Bearer team-token', 'X-Civitai-Api-Key': 'departed-key' });
+    await session.initialize();
+    assert.equal(redact('departed-key'), '[REDACTED]');
+
+    session.close();
+    for (let i = 0; i < 100 && redact('departed-key') !== 'departed-key'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.equal(redact('departed-key'), 'departed-key');
+  });
+
+  it('fails to listen when sessions cannot be built', async () => {
+    const configured = httpTransportFromConfig(loadConfig({
+      env: { CIVITAI_DISABLED_TOOLS: 'no_such_tool', CIVITAI_MCP_PORT: '0', CIVITAI_CACHE: 'off' },
+    }));
+
+    await assert.rejects(configured.listen(), { code: 'INVALID_CONFIG', message: 'Unknown tools: no_such_tool' });
+  });
+
+  it("refuses messages to another caller's session", async () => {
+    const session = await openSession(baseUrl, { Authorization: 'Bearer team-token' });
+    try {
+      const response = await session.post(
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { Authorization: 'Bearer other-token' }
+      );
+      assert.equal(response.status, 403);
+
+      const unknown = await fetch(`${baseUrl}/messages?sessionId=nope`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer team-token', 'Content-Type': 'application/json' },
+        body: '{}',
+      });
+      assert.equal(unknown.status, 404);
+    } finally {
+      session.close();
+    }
+  });
+
+  it('answers CORS preflights for allowed origins only', async () => {
+    const allowed = await fetch(`${baseUrl}/sse`, { method: 'OPTIONS', headers: { Origin: 'https://app.example.com' } });
+    const denied = await fetch(`${baseUrl}/sse`, { method: 'OPTIONS', headers: { Origin: 'https://evil.example.com' } });
+
+    assert.equal(allowed.status, 204);
+    assert.equal(allowed.headers.get('access-control-allow-origin'), 'https://app.example.com');
+    assert.match(allowed.headers.get('access-control-allow-headers'), /Authorization/);
+    assert.equal(denied.headers.get('access-control-allow-origin'), null);
+  });
+
+  it('only hands tokenized download links to callers using their own key', async () => {
+    const configured = httpTransportFromConfig(loadConfig({
+      env: {
+        CIVITAI_API_KEY: 'operator-key',
+        CIVITAI_BASE_URL: mock.baseUrl,
+        CIVITAI_ALLOW_TOKENIZED_URLS: 'true',
+        CIVITAI_MCP_CALLER_KEYS: 'true',
+        CIVITAI_MCP_PORT: '0',
+        CIVITAI_CACHE: 'off',
+      },
+    }));
+    const configuredUrl = await configured.listen();
+    const shared = await openSession(configuredUrl);
+    const own = await openSession(configuredUrl, { 'X-Civitai-Api-Key': 'caller-own-key' });
+    try {
+      await shared.initialize();
+      await own.initialize();
+      const call = { name: 'get_download_url', arguments: { modelVersionId: 130072, tokenized: true, output: 'json' } };
+
+      const refused = await shared.request('tools/call', call);
+      assert.equal(refused.result.isError, true);
+      assert.doesNotMatch(JSON.stringify(refused), /operator-key/);
+
+      const allowed = await own.request('tools/call', call);
+      assert.equal(JSON.parse(allowed.result.content[0].text).downloadUrl, `${mock.baseUrl}/download/models/130072?token=caller-own-key`);
+    } finally {
+      shared.close();
+      own.close();
+      await configured.close();
+    }
+  });
+});
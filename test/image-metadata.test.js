@@ -0,0 +1,183 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateSync } from 'node:zlib';
+import { parseEmbeddedMetadata, readEmbeddedMetadata } from '../dist/image-metadata.js';
+import { comfyPromptToMeta, comfyWorkflowToPrompt } from '../dist/generation-params.js';
+
+const PARAMETERS = 'a lighthouse, <lora:add_detail:0.7>\nNegative prompt: blurry\n' +
+  'Steps: 28, Sampler: Euler a, CFG scale: 6, Seed: 99, Size: 512x768, Model hash: 15012c538f, Model: realisticVision';
+
+// Chunk CRCs are not checked by the reader, so they are left zero
+function png(chunks) {
+  const parts = [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])];
+  for (const [type, data] of [...chunks, ['IEND', Buffer.alloc(0)]]) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    parts.push(length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4));
+  }
+  return Buffer.concat(parts);
+}
+
+// Big-endian TIFF with IFD0 -> Exif IFD -> UserComment, as piexif writes it
+function exif(userComment) {
+  const tiff = Buffer.alloc(8 + 18 + 18 + userComment.length);
+  tiff.write('MM', 0, 'latin1');
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(0x8769, 10);
+  tiff.writeUInt16BE(4, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt32BE(26, 18);
+  tiff.writeUInt16BE(1, 26);
+  tiff.writeUInt16BE(0x9286, 28);
+  tiff.writeUInt16BE(7, 30);
+  tiff.writeUInt32BE(userComment.length, 32);
+  tiff.writeUInt32BE(44, 36);
+  userComment.copy(tiff, 44);
+  return tiff;
+}
+
+const unicodeComment = text => Buffer.concat([Buffer.from('UNICODE\0', 'latin1'), Buffer.from(text, 'utf16le').swap16()]);
+
+const COMFY_PROMPT = {
+  '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: 'sd15/realisticVision.safetensors' } },
+  '5': { class_type: 'EmptyLatentImage', inputs: { width: 640, height: 960, batch_size: 1 } },
+  '6': { class_type: 'CLIPTextEncode', inputs: { text: 'a lighthouse', clip: ['10', 1] } },
+  '7': { class_type: 'CLIPTextEncode', inputs: { text: 'blurry', clip: ['10', 1] } },
+  '10': { class_type: 'LoraLoader', inputs: { lora_name: 'add_detail.safetensors', strength_model: 0.7, strength_clip: 0.7, model: ['4', 0], clip: ['4', 1] } },
+  '3': {
+    class_type: 'KSampler',
+    inputs: {
+      seed: 7, steps: 24, cfg: 5.5, sampler_name: 'dpmpp_2m', scheduler: 'karras', denoise: 1,
+      model: ['10', 0], positive: ['6', 0], negative: ['7', 0], latent_image: ['5', 0],
+    },
+  },
+};
+
+describe('embedded image metadata', () => {
+  it('reads PNG tEXt, zTXt and iTXt chunks', () => {
+    const itxt = Buffer.concat([Buffer.from('workflow\0\x01\0en\0\0', 'latin1'), deflateSync('{"nodes":[]}')]);
+    const { format, text } = parseEmbeddedMetadata(png([
+      ['IHDR', Buffer.alloc(13)],
+      ['tEXt', Buffer.from(`parameters\0${PARAMETERS}`, 'latin1')],
+      ['zTXt', Buffer.concat([Buffer.from('Comment\0\0', 'latin1'), deflateSync('hello')])],
+      ['iTXt', itxt],
+    ]));
+
+    assert.equal(format, 'png');
+    assert.deepEqual(text, { parameters: PARAMETERS, Comment: 'hello', workflow: '{"nodes":[]}' });
+  });
+
+  it('skips compressed text chunks that inflate past the limit', () => {
+    const bomb = deflateSync(Buffer.alloc(2 * 1024 * 1024, 'a'));
+    const { text } = parseEmbeddedMetadata(png([
+      ['tEXt', Buffer.from(`parameters\0${PARAMETERS}`, 'latin1')],
+      ['zTXt', Buffer.concat([Buffer.from('Comment\0\0', 'latin1'), bomb])],
+      ['iTXt', Buffer.concat([Buffer.from('workflow\0\x01\0en\0\0', 'latin1'), bomb])],
+    ]));
+
+    assert.ok(bomb.length < 16 * 1024);
+    assert.deepEqual(text, { parameters: PARAMETERS });
+  });
+
+  it('reads a UTF-16 UserComment from JPEG EXIF', () => {
+    const tiff = exif(unicodeComment(PARAMETERS));
+    const app1 = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+    const header = Buffer.from([0xff, 0xd8, 0xff, 0xe1, 0, 0]);
+    header.writeUInt16BE(app1.length + 2, 4);
+    const jpeg = Buffer.concat([header, app1, Buffer.from([0xff, 0xd9])]);
+
+    assert.deepEqual(parseEmbeddedMetadata(jpeg), { format: 'jpeg', text: { UserComment: PARAMETERS } });
+  });
+
+  it('reads the EXIF chunk of a WebP file', () => {
+    const tiff = exif(Buffer.concat([Buffer.from('ASCII\0\0\0', 'latin1'), Buffer.from('Steps: 20')]));
+    const chunk = Buffer.alloc(8);
+    chunk.write('EXIF', 0, 'latin1');
+    chunk.writeUInt32LE(tiff.length, 4);
+    const body = Buffer.concat([Buffer.from('WEBP', 'latin1'), chunk, tiff]);
+    const riff = Buffer.alloc(8);
+    riff.write('RIFF', 0, 'latin1');
+    riff.writeUInt32LE(body.length, 4);
+
+    assert.deepEqual(parseEmbeddedMetadata(Buffer.concat([riff, body])), { format: 'webp', text: { UserComment: 'Steps: 20' } });
+  });
+
+  it('reads text chunks from a file around its pixel data, refusing oversized files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'civitai-image-'));
+    try {
+      const path = join(dir, 'after-idat.png');
+      await writeFile(path, png([
+        ['IHDR', Buffer.alloc(13)],
+        ['IDAT', Buffer.alloc(64 * 1024)],
+        ['tEXt', Buffer.from(`parameters\0${PARAMETERS}`, 'latin1')],
+      ]));
+
+      assert.deepEqual(await readEmbeddedMetadata(path), { format: 'png', text: { parameters: PARAMETERS } });
+      await assert.rejects(readEmbeddedMetadata(path, 1024), { code: 'INVALID_ARGUMENTS', message: /too large/ });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports EXIF offsets and WebP chunks that point past the data as unreadable', () => {
+    const webp = (tiff, declaredLength = tiff.length) => {
+      const chunk = Buffer.alloc(8);
+      chunk.write('EXIF', 0, 'latin1');
+      chunk.writeUInt32LE(declaredLength, 4);
+      return Buffer.concat([Buffer.from('RIFF\0\0\0\0WEBP', 'latin1'), chunk, tiff]);
+    };
+    const badIfd = exif(unicodeComment(PARAMETERS));
+    badIfd.writeUInt32BE(0xfffff, 4);
+    const badComment = exif(unicodeComment(PARAMETERS));
+    badComment.writeUInt32BE(0xfffff, 36);
+    const badPointer = exif(unicodeComment(PARAMETERS));
+    badPointer.writeUInt32BE(2, 14);
+    badPointer.writeUInt32BE(0xfffff, 18);
+    const tiff = exif(unicodeComment(PARAMETERS));
+
+    for (const image of [webp(badIfd), webp(badComment), webp(badPointer), webp(tiff, tiff.length + 100)]) {
+      assert.throws(() => parseEmbeddedMetadata(image), { code: 'INVALID_ARGUMENTS', message: /^Unreadable metadata/ });
+    }
+  });
+
+  it('rejects files that are not images', () => {
+    assert.throws(() => parseEmbeddedMetadata(Buffer.from('plain text')), { code: 'INVALID_ARGUMENTS' });
+  });
+});
+
+describe('ComfyUI metadata', () => {
+  it('reads a prompt graph into Civitai meta', () => {
+    assert.deepEqual(comfyPromptToMeta(COMFY_PROMPT), {
+      prompt: 'a lighthouse',
+      negativePrompt: 'blurry',
+      seed: 7,
+      steps: 24,
+      cfgScale: 5.5,
+      sampler: 'DPM++ 2M Karras',
+      Size: '640x960',
+      Model: 'realisticVision',
+      resources: [{ type: 'lora', name: 'add_detail', weight: 0.7 }],
+    });
+  });
+
+  it('converts editor workflows to prompt graphs', () => {
+    const prompt = comfyWorkflowToPrompt({
+      nodes: [
+        { id: 4, type: 'CheckpointLoaderSimple', widgets_values: ['model.safetensors'] },
+        { id: 3, type: 'KSampler', widgets_values: [7, 'fixed', 24, 5.5, 'euler', 'normal', 1], inputs: [{ name: 'model', link: 1 }] },
+      ],
+      links: [[1, 4, 0, 3, 0, 'MODEL']],
+    });
+
+    assert.deepEqual(prompt['3'].inputs, {
+      seed: 7, control_after_generate: 'fixed', steps: 24, cfg: 5.5, sampler_name: 'euler', scheduler: 'normal', denoise: 1,
+      model: ['4', 0],
+    });
+    assert.equal(comfyPromptToMeta(prompt).Model, 'model');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { commercialUses, licensePermissions } from '../dist/license-report.js';
+
+describe('license permissions', () => {
+  it('expands the single commercial use value of older responses', () => {
+    assert.deepEqual(commercialUses({ allowCommercialUse: 'Rent' }), ['Image', 'RentCivit', 'Rent']);
+    assert.deepEqual(commercialUses({ allowCommercialUse: 'None' }), []);
+    assert.deepEqual(commercialUses({ allowCommercialUse: ['None'] }), []);
+    assert.equal(commercialUses({}), undefined);
+  });
+
+  it('reports unknown when Civitai omits the permission fields', () => {
+    assert.deepEqual(licensePermissions({}), {
+      sellImages: 'unknown',
+      generationServices: 'unknown',
+      sellModel: 'unknown',
+      shareMerges: 'unknown',
+      differentLicense: 'unknown',
+      noCredit: 'unknown',
+    });
+    assert.equal(licensePermissions({ allowCommercialUse: ['Image'] }).generationServices, 'not-allowed');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HashCache, autoV2, findModelFiles, hashFile, resolveInside } from '../dist/local-library.js';
+import { DOWNLOAD_BODY } from './support/mock-civitai.js';
+
+const sha256 = body => createHash('sha256').update(body).digest('hex').toUpperCase();
+
+describe('local model library', () => {
+  let dir;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'civitai-library-'));
+    await mkdir(join(dir, 'loras'));
+    await mkdir(join(dir, '.trash'));
+    await writeFile(join(dir, 'loras', 'add_detail.safetensors'), DOWNLOAD_BODY);
+    await writeFile(join(dir, 'model.CKPT'), 'checkpoint');
+    await writeFile(join(dir, 'readme.txt'), 'not a model');
+    await writeFile(join(dir, '.trash', 'old.safetensors'), 'deleted');
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('computes SHA256 and AutoV2 hashes', async () => {
+    const hash = await hashFile(join(dir, 'loras', 'add_detail.safetensors'));
+    assert.equal(hash, sha256(DOWNLOAD_BODY));
+    assert.equal(autoV2(hash), hash.slice(0, 10));
+  });
+
+  it('finds model files and skips hidden directories', async () => {
+    assert.deepEqual(await findModelFiles(dir), [join(dir, 'loras', 'add_detail.safetensors'), join(dir, 'model.CKPT')]);
+    assert.deepEqual(await findModelFiles(dir, false), [join(dir, 'model.CKPT')]);
+  });
+
+  it('reuses cached hashes until size or mtime change', async () => {
+    const file = join(dir, 'model.CKPT');
+    const cacheFile = join(dir, '.hashes.json');
+
+    const first = new HashCache(cacheFile);
+    assert.equal((await first.hashesFor(file)).sha256, sha256('checkpoint'));
+    await first.save();
+    assert.ok(JSON.parse(await readFile(cacheFile, 'utf8'))[file]);
+
+    // Same size and mtime: the stale cached digest wins, proving no rehash
+    await writeFile(file, 'CHECKPOINT');
+    const when = new Date('2024-01-01T00:00:00Z');
+    await utimes(file, when, when);
+    const stored = JSON.parse(await readFile(cacheFile, 'utf8'));
+    stored[file].mtimeMs = when.getTime();
+    await writeFile(cacheFile, JSON.stringify(stored));
+    assert.equal((await new HashCache(cacheFile).hashesFor(file)).sha256, sha256('checkpoint'));
+
+    // A newer mtime invalidates the entry
+    await utimes(file, new Date(), new Date());
+    assert.equal((await new HashCache(cacheFile).hashesFor(file)).sha256, sha256('CHECKPOINT'));
+  });
+
+  it('refuses paths outside the library', () => {
+    assert.equal(resolveInside(dir, 'loras'), join(dir, 'loras'));
+    assert.throws(() => resolveInside(dir, '../elsewhere'), { code: 'INVALID_ARGUMENTS' });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CivitaiClient } from '../dist/civitai-client.js';
+import { collectPages, decodeCursor, iteratePages, nextPageParams } from '../dist/pagination.js';
+import { startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+const cursorOf = result => result.content.find(part => part.text.startsWith('Next cursor: '))?.text.slice(13);
+
+describe('pagination', () => {
+  let mock;
+  let client;
+  let harness;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl });
+    harness = await connectHarness(mock.baseUrl);
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  beforeEach(() => mock.reset());
+
+  it('prefers nextCursor, then nextPage, then page arithmetic', () => {
+    assert.deepEqual(nextPageParams({ nextCursor: 42, nextPage: 'https://civitai.com/api/v1/images?page=9' }), { cursor: 42 });
+    assert.deepEqual(nextPageParams({ nextPage: 'https://civitai.com/api/v1/models?cursor=abc%7C1' }), { cursor: 'abc|1' });
+    assert.deepEqual(nextPageParams({ nextPage: 'https://civitai.com/api/v1/tags?page=3' }), { page: 3 });
+    assert.deepEqual(nextPageParams({ currentPage: 1, totalPages: 2 }), { page: 2 });
+    assert.equal(nextPageParams({ currentPage: 2, totalPages: 2 }), undefined);
+  });
+
+  it('iterates images across cursor pages', async () => {
+    const ids = [];
+    for await (const image of client.iterateImages({ limit: 1 })) {
+      ids.push(image.id);
+    }
+
+    assert.deepEqual(ids, [3905215, 3905301, 3905444]);
+    assert.deepEqual(mock.requests.map(r => r.params.get('cursor')), [null, '3905301', '3905444']);
+  });
+
+  it('iterates models across numbered pages', async () => {
+    const names = [];
+    for await (const model of client.iterateModels({ limit: 1 })) {
+      names.push(model.name);
+    }
+
+    assert.deepEqual(names, ['Realistic Vision V6.0', 'Detail Tweaker LoRA']);
+    assert.deepEqual(mock.requests.map(r => r.params.get('page')), [null, '2']);
+  });
+
+  it('resumes mid-page when maxItems ends inside a page', async () => {
+    const fetchPage = params => client.getImages({ limit: 2, ...params });
+
+    const first = await collectPages(fetchPage, { maxItems: 1 });
+    assert.deepEqual(first.items.map(i => i.id), [3905215]);
+    assert.equal(decodeCursor(first.cursor).skip, 1);
+
+    const rest = await collectPages(fetchPage, { cursor: first.cursor, maxItems: 10 });
+    assert.deepEqual(rest.items.map(i => i.id), [3905301, 3905444]);
+    assert.equal(rest.cursor, undefined);
+  });
+
+  it('keeps going past pages the content policy emptied', async () => {
+    const pages = {
+      start: { items: [], metadata: { nextCursor: 'b', withheld: 2 } },
+      b: { items: [{ id: 7 }], metadata: { withheld: 0 } },
+    };
+    const fetchPage = async params => pages[params.cursor ?? 'start'];
+
+    const single = await collectPages(fetchPage);
+    assert.deepEqual(single.items, []);
+    assert.deepEqual(decodeCursor(single.cursor).params, { cursor: 'b' });
+
+    const collected = await collectPages(fetchPage, { maxItems: 5 });
+    assert.deepEqual(collected.items, [{ id: 7 }]);
+    assert.equal(collected.withheld, 2);
+
+    const iterated = [];
+    for await (const item of iteratePages(fetchPage)) iterated.push(item);
+    assert.deepEqual(iterated, [{ id: 7 }]);
+  });
+
+  it('returns an opaque cursor from list tools and accepts it back', async () => {
+    const first = await harness.callTool('browse_images', { limit: 2 });
+    const cursor = cursorOf(first);
+    assert.ok(cursor);
+    assert.doesNotMatch(first.content[0].text, /3905444/);
+
+    const second = await harness.callTool('browse_images', { limit: 2, cursor });
+    assert.match(second.content[0].text, /\*\*Image ID:\*\* 3905444/);
+    assert.equal(cursorOf(second), undefined);
+    assert.equal(mock.requests[1].params.get('cursor'), '3905444');
+  });
+
+  it('collects up to maxItems across pages in one call', async () => {
+    const result = await harness.callTool('search_models', { limit: 1, maxItems: 5 });
+
+    assert.match(result.content[0].text, /Realistic Vision V6.0/);
+    assert.match(result.content[0].text, /Detail Tweaker LoRA/);
+    assert.equal(mock.requests.length, 2);
+  });
+
+  it('sizes pages from maxItems when no limit is given', async () => {
+    await harness.callTool('get_tags', { maxItems: 500 });
+
+    assert.equal(mock.requests[0].params.get('limit'), '200');
+  });
+
+  it('rejects malformed cursors', async () => {
+    const result = await harness.callTool('get_creators', { cursor: 'not-a-cursor' });
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'INVALID_ARGUMENTS');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+describe('prompt registry', () => {
+  let mock;
+  let harness;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    harness = await connectHarness(mock.baseUrl);
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  beforeEach(() => mock.reset());
+
+  const promptText = async (name, args) => {
+    const { messages } = await harness.client.getPrompt({ name, arguments: args });
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].role, 'user');
+    return messages[0].content.text;
+  };
+
+  it('lists the prompts with their arguments', async () => {
+    const { prompts } = await harness.client.listPrompts();
+
+    assert.deepEqual(prompts.map(prompt => prompt.name), [
+      'find_lora_for_style', 'audit_model', 'reproduce_image', 'summarize_version_changes',
+    ]);
+    assert.deepEqual(prompts[0].arguments.map(argument => [argument.name, argument.required]), [
+      ['style', true],
+      ['baseModel', true],
+    ]);
+  });
+
+  it('find_lora_for_style embeds matching LoRAs for the base model', async () => {
+    const text = await promptText('find_lora_for_style', { style: 'detail', baseModel: 'SD 1.5' });
+
+    assert.match(text, /"name": "Detail Tweaker LoRA"/);
+    assert.match(text, /"detailed"/);
+    const { params } = mock.requests[0];
+    assert.deepEqual([params.get('query'), params.getAll('types'), params.getAll('baseModels')], ['detail', ['LORA'], ['SD 1.5']]);
+  });
+
+  it('audit_model embeds the version, its license and its safety check', async () => {
+    const text = await promptText('audit_model', { modelVersionId: '130072' });
+
+    assert.match(text, /\*\*Version ID:\*\* 130072/);
+    assert.match(text, /# License Report/);
+    assert.match(text, /# Safety Check: Realistic Vision V6\.0/);
+  });
+
+  it('reproduce_image embeds the generation parameters and resolved resources', async () => {
+    const text = await promptText('reproduce_image', { imageId: '3905215' });
+
+    assert.match(text, /\*\*Image ID:\*\* 3905215/);
+    assert.match(text, /RAW photo, portrait of a woman in a sunlit cafe/);
+    assert.match(text, /Realistic Vision V6\.0/);
+  });
+
+  it('summarize_version_changes embeds the latest and previous versions', async () => {
+    const text = await promptText('summarize_version_changes', { modelId: '4201' });
+
+    assert.match(text, /## Latest version[\s\S]*\*\*Version ID:\*\* 130072/);
+    assert.match(text, /## Previous version[\s\S]*\*\*Version ID:\*\* 114367/);
+  });
+
+  it('rejects unknown prompts and missing or invalid arguments', async () => {
+    await assert.rejects(harness.client.getPrompt({ name: 'nope' }), { code: -32602, message: /Unknown prompt/ });
+    await assert.rejects(
+      harness.client.getPrompt({ name: 'find_lora_for_style', arguments: { style: 'ink' } }),
+      { code: -32602, message: /Missing arguments for find_lora_for_style: baseModel/ }
+    );
+    await assert.rejects(
+      harness.client.getPrompt({ name: 'audit_model', arguments: { modelVersionId: 'latest' } }),
+      { code: -32602, message: /INVALID_ARGUMENTS: Invalid modelVersionId: latest/ }
+    );
+  });
+});
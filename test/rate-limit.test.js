@@ -0,0 +1,141 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CivitaiClient } from '../dist/civitai-client.js';
+import { RateLimitedError } from '../dist/errors.js';
+import { TokenBucket, backoffDelay, parseRetryAfter, DEFAULT_RETRY_POLICY } from '../dist/rate-limit.js';
+import { loadFixture, startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+// Answers with `statuses` in turn, then serves the tags fixture
+function failThenServe(statuses, headers = {}) {
+  let calls = 0;
+  return (_req, res) => {
+    const status = statuses[calls++];
+    if (status === 'reset') {
+      res.socket.destroy();
+      return;
+    }
+    if (status) {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify({ error: 'try again' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(loadFixture('tags.json')));
+  };
+}
+
+describe('retry and rate limiting', () => {
+  let mock;
+  let client;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, retry: { baseDelayMs: 1 } });
+  });
+
+  after(() => mock.close());
+
+  beforeEach(() => mock.reset());
+
+  it('retries 5xx responses and network errors', async () => {
+    mock.override('/api/v1/tags', failThenServe([503, 'reset', 502]));
+
+    const tags = await client.getTags();
+
+    assert.equal(tags.items.length, 3);
+    assert.equal(mock.requests.length, 4);
+  });
+
+  it('honors Retry-After on 429', async () => {
+    mock.override('/api/v1/tags', failThenServe([429], { 'Retry-After': '0' }));
+
+    await client.getTags();
+
+    assert.equal(mock.requests.length, 2);
+  });
+
+  it('gives up on 5xx after maxRetries', async () => {
+    mock.override('/api/v1/tags', failThenServe([500, 500, 500, 500]));
+
+    await assert.rejects(client.getTags(), { code: 'API_ERROR', status: 500 });
+    assert.equal(mock.requests.length, 4);
+  });
+
+  it('gives up on requests that exceed the timeout', async () => {
+    mock.override('/api/v1/tags', (_req, res) => {
+      setTimeout(() => res.destroyed || res.writeHead(200).end('{}'), 300);
+    });
+    const impatient = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, timeoutMs: 50, retry: { maxRetries: 0 } });
+
+    await assert.rejects(impatient.getTags(), { code: 'NETWORK_ERROR', message: 'Network error: request timed out after 50ms' });
+  });
+
+  it('lets a slow body finish after the headers arrive in time', async () => {
+    mock.override('/api/v1/tags', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      const body = JSON.stringify(loadFixture('tags.json'));
+      res.write(body.slice(0, 10));
+      setTimeout(() => res.end(body.slice(10)), 150);
+    });
+    const impatient = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, timeoutMs: 50, retry: { maxRetries: 0 } });
+
+    const tags = await impatient.getTags();
+
+    assert.equal(tags.items.length, 3);
+  });
+
+  it('reports a long Retry-After as RateLimitedError without waiting', async () => {
+    mock.override('/api/v1/tags', failThenServe([429], { 'Retry-After': '120' }));
+
+    await assert.rejects(client.getTags(), error => {
+      assert.ok(error instanceof RateLimitedError);
+      assert.equal(error.code, 'RATE_LIMITED');
+      assert.equal(error.retryAfterMs, 120_000);
+      return true;
+    });
+    assert.equal(mock.requests.length, 1);
+  });
+
+  it('returns rate-limit failures to MCP callers as structured errors', async () => {
+    mock.override('/api/v1/tags', failThenServe([429], { 'Retry-After': '90' }));
+    const harness = await connectHarness(mock.baseUrl);
+    try {
+      const result = await harness.callTool('get_tags', {});
+
+      assert.equal(result.isError, true);
+      assert.match(result.content[0].text, /retry after 90s/);
+      assert.deepEqual(JSON.parse(result.content[1].text).error, {
+        code: 'RATE_LIMITED',
+        message: 'Rate limited by Civitai; retry after 90s',
+        retryAfterMs: 90_000,
+      });
+    } finally {
+      await harness.close();
+    }
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-13T10:00:00Z');
+    assert.equal(parseRetryAfter('7', now), 7000);
+    assert.equal(parseRetryAfter('Sat, 13 Jan 2024 10:00:30 GMT', now), 30_000);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+    assert.equal(parseRetryAfter(null, now), undefined);
+  });
+
+  it('caps jittered backoff at maxDelayMs', () => {
+    assert.equal(backoffDelay(0, DEFAULT_RETRY_POLICY, () => 1), 500);
+    assert.equal(backoffDelay(2, DEFAULT_RETRY_POLICY, () => 1), 2000);
+    assert.equal(backoffDelay(10, DEFAULT_RETRY_POLICY, () => 1), 10_000);
+    assert.equal(backoffDelay(3, DEFAULT_RETRY_POLICY, () => 0), 0);
+  });
+
+  it('spaces concurrent requests through the token bucket', async () => {
+    const bucket = new TokenBucket(20, 1);
+    const started = Date.now();
+
+    await Promise.all([bucket.take(), bucket.take(), bucket.take()]);
+
+    assert.ok(Date.now() - started >= 90, 'three tokens at 20/s with a burst of 1 take ~100ms');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+describe('resource registry', () => {
+  let mock;
+  let harness;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    harness = await connectHarness(mock.baseUrl);
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  beforeEach(() => mock.reset());
+
+  const read = async uri => {
+    const { contents } = await harness.client.readResource({ uri });
+    return {
+      data: JSON.parse(contents.find(c => c.mimeType === 'application/json').text),
+      markdown: contents.find(c => c.mimeType === 'text/markdown').text,
+    };
+  };
+
+  it('advertises a URI template per resource type', async () => {
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+
+    assert.deepEqual(resourceTemplates.map(t => t.uriTemplate), [
+      'civitai://model/{id}',
+      'civitai://model-version/{id}',
+      'civitai://image/{id}',
+      'civitai://creator/{username}',
+      'civitai://tag/{name}',
+    ]);
+    assert.deepEqual((await harness.client.listResources()).resources, []);
+  });
+
+  it('reads models and versions as JSON plus markdown', async () => {
+    const model = await read('civitai://model/4201');
+    assert.equal(model.data.id, 4201);
+    assert.match(model.markdown, /^# Realistic Vision V6\.0/);
+
+    const version = await read('civitai://model-version/130072');
+    assert.equal(version.data.files[0].safety.passed, true);
+    assert.match(version.markdown, /\*\*Version ID:\*\* 130072/);
+  });
+
+  it('reads images', async () => {
+    const image = await read('civitai://image/3905215');
+
+    assert.equal(image.data.id, 3905215);
+    assert.match(image.markdown, /\*\*Creator:\*\* SG_161222/);
+    assert.equal(mock.requests[0].params.get('imageId'), '3905215');
+  });
+
+  it('reads creators and tags with their most downloaded models', async () => {
+    const creator = await read('civitai://creator/sg_161222');
+    assert.equal(creator.data.username, 'SG_161222');
+    assert.deepEqual(creator.data.topModels.map(m => m.id), [4201]);
+    assert.match(creator.markdown, /- \*\*Realistic Vision V6\.0\*\* \(Checkpoint, ID: 4201\)/);
+    assert.equal(mock.requests[1].params.get('sort'), 'Most Downloaded');
+
+    const tag = await read('civitai://tag/photorealistic');
+    assert.equal(tag.data.modelCount, 18211);
+    assert.match(tag.markdown, /^# Tag: photorealistic/);
+  });
+
+  it('rejects unknown URIs, bad ids and missing entries', async () => {
+    await assert.rejects(harness.client.readResource({ uri: 'civitai://post/1' }), { code: -32602, message: /Unknown resource/ });
+    await assert.rejects(harness.client.readResource({ uri: 'civitai://model/abc' }), { code: -32602, message: /INVALID_ARGUMENTS/ });
+    await assert.rejects(harness.client.readResource({ uri: 'civitai://model/999' }), { code: -32602, message: /NOT_FOUND/ });
+    await assert.rejects(harness.client.readResource({ uri: 'civitai://creator/nobody' }), { message: /No creator named nobody/ });
+  });
+});
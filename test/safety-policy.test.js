@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SAFETY_POLICY, checkFileSafety, modelSafetyReport } from '../dist/safety-policy.js';
+
+const NOW = new Date('2024-03-01T00:00:00.000Z');
+
+const file = (overrides = {}) => ({
+  id: 1,
+  name: 'model.safetensors',
+  type: 'Model',
+  metadata: { format: 'SafeTensor' },
+  pickleScanResult: 'Success',
+  virusScanResult: 'Success',
+  scannedAt: '2024-02-20T00:00:00.000Z',
+  primary: true,
+  ...overrides,
+});
+
+describe('checkFileSafety', () => {
+  it('passes scanned files and fails pending scans by default', () => {
+    assert.equal(checkFileSafety(file(), DEFAULT_SAFETY_POLICY, NOW).passed, true);
+
+    const pending = checkFileSafety(file({ pickleScanResult: 'Pending' }), DEFAULT_SAFETY_POLICY, NOW);
+    assert.equal(pending.passed, false);
+    assert.deepEqual(pending.reasons, ['scans incomplete or failed (pickle Pending, virus Success)']);
+  });
+
+  it('always fails files a scan flagged', () => {
+    const policy = { requireSafeTensors: false, blockPickle: false, requireScans: false };
+    const safety = checkFileSafety(file({ virusScanResult: 'Danger' }), policy, NOW);
+
+    assert.equal(safety.passed, false);
+    assert.deepEqual(safety.rules.map(rule => rule.rule), ['danger']);
+  });
+
+  it('applies format rules to weights only', () => {
+    const pickle = file({ name: 'model.ckpt', metadata: { format: 'PickleTensor' } });
+    const blockPickle = { ...DEFAULT_SAFETY_POLICY, blockPickle: true };
+    const requireSafeTensors = { ...DEFAULT_SAFETY_POLICY, requireSafeTensors: true };
+
+    assert.deepEqual(checkFileSafety(pickle, blockPickle, NOW).reasons, ['PickleTensor files are blocked by the policy']);
+    assert.equal(checkFileSafety(file({ metadata: { format: 'Other' } }), blockPickle, NOW).passed, true);
+    assert.deepEqual(checkFileSafety(file({ metadata: { format: 'Other' } }), requireSafeTensors, NOW).reasons, [
+      'format is Other; the policy requires SafeTensor',
+    ]);
+    assert.equal(checkFileSafety({ ...pickle, type: 'Training Data' }, requireSafeTensors, NOW).passed, true);
+  });
+
+  it('fails stale or undated scans when a maximum age is set', () => {
+    const policy = { ...DEFAULT_SAFETY_POLICY, maxScanAgeDays: 30 };
+
+    assert.equal(checkFileSafety(file(), policy, NOW).passed, true);
+    assert.deepEqual(checkFileSafety(file({ scannedAt: '2023-12-01T00:00:00.000Z' }), policy, NOW).reasons, [
+      'scanned 91 day(s) ago; the policy allows 30',
+    ]);
+    assert.deepEqual(checkFileSafety(file({ scannedAt: null }), policy, NOW).reasons, ['no scan date recorded']);
+  });
+});
+
+describe('modelSafetyReport', () => {
+  it('passes when the primary file does, whatever the other files', () => {
+    const version = {
+      id: 10,
+      modelId: 5,
+      name: 'v1',
+      model: { name: 'Example', type: 'Checkpoint' },
+      files: [file({ primary: false, id: 2, pickleScanResult: 'Pending' }), file()],
+    };
+
+    const report = modelSafetyReport(version, DEFAULT_SAFETY_POLICY, NOW);
+    assert.equal(report.passed, true);
+    assert.deepEqual(report.files.map(f => [f.id, f.primary, f.passed]), [[2, false, false], [1, true, true]]);
+  });
+
+  it('fails when no file is marked primary or there are none', () => {
+    const version = { id: 10, modelId: 5, name: 'v1', model: { name: 'Example', type: 'Checkpoint' } };
+
+    const unmarked = modelSafetyReport({ ...version, files: [file({ primary: false })] }, DEFAULT_SAFETY_POLICY, NOW);
+    assert.equal(unmarked.passed, false);
+    assert.equal(modelSafetyReport({ ...version, files: [] }, DEFAULT_SAFETY_POLICY, NOW).passed, false);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CivitaiClient } from '../dist/civitai-client.js';
+import { SchemaDriftLog } from '../dist/schema-drift.js';
+import { loadFixture, startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+function respond(body) {
+  return (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+}
+
+// A /models page where Civitai introduced a new model type and sent one broken item
+function driftedModels() {
+  const page = loadFixture('models.json');
+  page.items[0].type = 'DoRA';
+  page.items[0].modelVersions[0].files[0].metadata.fp = 'fp8';
+  delete page.items[1].creator;
+  return page;
+}
+
+describe('schema drift', () => {
+  let mock;
+  let lines;
+  let log;
+
+  before(async () => {
+    mock = await startMockCivitai();
+  });
+
+  after(() => mock.close());
+
+  beforeEach(() => {
+    mock.reset();
+    lines = [];
+    log = new SchemaDriftLog(line => lines.push(line));
+  });
+
+  it('keeps unknown enum values and skips malformed items in lenient mode', async () => {
+    mock.override('/api/v1/models', respond(driftedModels()));
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, driftLog: log });
+
+    const models = await client.getModels();
+
+    assert.equal(models.items.length, 1);
+    assert.equal(models.items[0].type, 'DoRA');
+    assert.equal(models.items[0].modelVersions[0].files[0].metadata.fp, 'fp8');
+    assert.ok(lines.some(line => line.includes('unknown-enum /models items.0.type') && line.includes('"DoRA"')));
+    assert.ok(lines.some(line => line.includes('skipped-item /models items.1: creator: Required')));
+  });
+
+  it('fails the request in strict mode', async () => {
+    mock.override('/api/v1/models', respond(driftedModels()));
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, schemaMode: 'strict', driftLog: log });
+
+    await assert.rejects(client.getModels(), { code: 'SCHEMA_DRIFT' });
+    assert.equal(client.getSchemaHealth().mode, 'strict');
+    assert.ok(client.getSchemaHealth().totalEvents > 0);
+  });
+
+  it('still fails when the response itself is unusable', async () => {
+    mock.override('/api/v1/models/4201', respond({ id: 4201, name: 'Broken' }));
+    const client = new CivitaiClient(undefined, { baseUrl: mock.baseUrl, driftLog: log });
+
+    await assert.rejects(client.getModel(4201), { code: 'SCHEMA_DRIFT' });
+  });
+
+  it('summarizes drift by path through schema_health', async () => {
+    mock.override('/api/v1/models', respond(driftedModels()));
+    const harness = await connectHarness(mock.baseUrl, { driftLog: log });
+
+    assert.match(await harness.callToolText('schema_health'), /No schema drift seen this session \(mode: lenient\)/);
+    await harness.callTool('search_models', {});
+    await harness.callTool('search_models', { query: 'again' });
+    const health = JSON.parse(await harness.callToolText('schema_health', { output: 'json' }));
+    await harness.close();
+
+    assert.equal(health.totalEvents, 6);
+    const typeDrift = health.drift.find(entry => entry.path === 'items.*.type');
+    assert.deepEqual(
+      { kind: typeDrift.kind, count: typeDrift.count, values: typeDrift.values },
+      { kind: 'unknown-enum', count: 2, values: ['DoRA'] }
+    );
+    assert.ok(health.drift.some(entry => entry.path === 'items.*.modelVersions.*.files.*.metadata.fp'));
+  });
+});
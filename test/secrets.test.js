@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { redact, registerSecret } from '../dist/secrets.js';
+
+describe('secret redaction', () => {
+  it('masks credential query parameters and bearer tokens', () => {
+    assert.equal(
+      redact('request to https://civitai.com/api/v1/models?limit=5&token=abc123&api_key=def failed'),
+      'request to https://civitai.com/api/v1/models?limit=5&token=[REDACTED]&api_key=[REDACTED] failed'
+    );
+    assert.equal(redact('Authorization: Bearer sk-live-123'), 'Authorization: Bearer [REDACTED]');
+  });
+
+  it('masks registered secrets wherever they appear', () => {
+    registerSecret('registered-secret-value');
+    registerSecret('short');
+
+    assert.equal(redact('{"message":"key registered-secret-value rejected"}'), '{"message":"key [REDACTED] rejected"}');
+    assert.equal(redact('a short word'), 'a short word');
+  });
+
+  it('stops masking a secret once every registration of it is released', () => {
+    const first = registerSecret('caller-session-key');
+    const second = registerSecret('caller-session-key');
+
+    first();
+    first();
+    assert.equal(redact('caller-session-key'), '[REDACTED]');
+    second();
+    assert.equal(redact('caller-session-key'), 'caller-session-key');
+  });
+
+  it('leaves hashes and ordinary text alone', () => {
+    const text = 'File hash 15012C538F503CE2EBFC2C8547B268C75CCDAFF7A634D34A2B5B4BA2C6B6D2D9 passed';
+    assert.equal(redact(text), text);
+  });
+});
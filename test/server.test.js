@@ -0,0 +1,810 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DOWNLOAD_BODY, loadFixture, startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+describe('CivitaiMCPServer tools', () => {
+  let mock;
+  let harness;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    harness = await connectHarness(mock.baseUrl);
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  beforeEach(() => mock.reset());
+
+  it('lists all tools', async () => {
+    const { tools } = await harness.client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    for (const name of [
+      'search_models', 'get_model', 'get_model_version', 'get_model_version_by_hash',
+      'browse_images', 'get_creators', 'get_tags', 'get_popular_models', 'get_latest_models',
+      'get_top_rated_models', 'search_models_by_tag', 'search_models_by_creator',
+      'get_models_by_type', 'get_download_url', 'scan_local_models', 'check_model_updates',
+      'download_model_version', 'schema_health', 'get_image_generation_params', 'inspect_local_image',
+      'suggest_prompts', 'compare_models', 'check_stack_compatibility',
+      'license_report', 'check_model_safety',
+    ]) {
+      assert.ok(names.includes(name), `missing tool ${name}`);
+    }
+  });
+
+  it('search_models', async () => {
+    const text = await harness.callToolText('search_models', { query: 'detail', limit: 5 });
+
+    assert.match(text, /Found 1 models/);
+    assert.match(text, /\*\*Detail Tweaker LoRA\*\* \(LORA\)/);
+    assert.equal(mock.requests[0].params.get('query'), 'detail');
+  });
+
+  it('get_model', async () => {
+    const text = await harness.callToolText('get_model', { modelId: 4201 });
+
+    assert.match(text, /# Realistic Vision V6.0/);
+    assert.match(text, /\*\*Creator:\*\* SG_161222/);
+    assert.match(text, /\*\*Versions \(2\):\*\*/);
+    assert.match(text, /V6.0 \(B1\)\*\* \(ID: 130072\)/);
+  });
+
+  it('get_model_version', async () => {
+    const text = await harness.callToolText('get_model_version', { modelVersionId: 130072 });
+
+    assert.match(text, /# Realistic Vision V6.0 - V6.0 \(B1\)/);
+    assert.match(text, /\*\*Model Type:\*\* Checkpoint/);
+    assert.match(text, /Format: SafeTensor/);
+    assert.match(text, /Scans: Pickle=Success, Virus=Success/);
+  });
+
+  it('get_model_version_by_hash', async () => {
+    const text = await harness.callToolText('get_model_version_by_hash', { hash: 'BD969CF2CB' });
+
+    assert.match(text, /\*\*Model:\*\* Detail Tweaker LoRA/);
+    assert.match(text, /\*\*Version:\*\* v1.0 \(ID: 62833\)/);
+    assert.match(text, /\*\*Trained Words:\*\* detailed/);
+  });
+
+  it('browse_images', async () => {
+    const text = await harness.callToolText('browse_images', { modelVersionId: 130072, limit: 2 });
+
+    assert.match(text, /\*\*Image ID:\*\* 3905215/);
+    assert.match(text, /\*\*Dimensions:\*\* 832x1216/);
+    assert.match(text, /\*\*Creator:\*\* lensflare/);
+    assert.equal(mock.requests[0].params.get('limit'), '2');
+  });
+
+  it('browse_images withholds images above the content policy and says how many', async () => {
+    const { items } = loadFixture('images.json');
+    const explicit = { ...items[0], id: 1, nsfw: true, nsfwLevel: 'X', browsingLevel: 8 };
+    mock.override('/api/v1/images', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ items: [items[0], explicit], metadata: {} }));
+    });
+
+    const text = await harness.callToolText('browse_images', { nsfw: 'X' });
+    assert.match(text, /\*\*Image ID:\*\* 3905215/);
+    assert.ok(!text.includes('**Image ID:** 1\n'));
+    assert.match(text, /Withheld by the content policy: 1 item\(s\)/);
+    assert.equal(mock.requests[0].params.get('nsfw'), 'Soft');
+
+    const list = JSON.parse(await harness.callToolText('browse_images', { output: 'json' }));
+    assert.equal(list.pagination.withheld, 1);
+  });
+
+  it('get_model_version says how many sample images the content policy withheld', async () => {
+    const version = loadFixture('model-version-130072.json');
+    version.images.push({ ...version.images[0], nsfwLevel: 'Extreme' });
+    mock.override('/api/v1/model-versions/130072', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(version));
+    });
+
+    const text = await harness.callToolText('get_model_version', { modelVersionId: 130072 });
+    assert.match(text, /Withheld by the content policy: 1 item\(s\)/);
+    const normalized = JSON.parse(await harness.callToolText('get_model_version', { modelVersionId: 130072, output: 'json' }));
+    assert.equal(normalized.imageCount, 1);
+    assert.equal(normalized.withheldImages, 1);
+  });
+
+  it('get_creators', async () => {
+    const text = await harness.callToolText('get_creators', {});
+
+    assert.match(text, /Found 2 creators/);
+    assert.match(text, /\*\*OedoSoldier\*\*/);
+  });
+
+  it('get_tags', async () => {
+    const text = await harness.callToolText('get_tags', { query: 'photo' });
+
+    assert.match(text, /\*\*photorealistic\*\* \(18211 models\)/);
+    assert.equal(mock.requests[0].params.get('query'), 'photo');
+  });
+
+  it('get_popular_models', async () => {
+    const text = await harness.callToolText('get_popular_models', { period: 'Month', limit: 2 });
+
+    assert.match(text, /# Most Popular Models \(Month\)/);
+    assert.match(text, /1\. \*\*Realistic Vision V6.0\*\*/);
+    assert.equal(mock.requests[0].params.get('sort'), 'Most Downloaded');
+    assert.equal(mock.requests[0].params.get('period'), 'Month');
+  });
+
+  it('get_latest_models', async () => {
+    const text = await harness.callToolText('get_latest_models', { limit: 2 });
+
+    assert.match(text, /# Latest Models/);
+    assert.equal(mock.requests[0].params.get('sort'), 'Newest');
+  });
+
+  it('get_top_rated_models', async () => {
+    const text = await harness.callToolText('get_top_rated_models', {});
+
+    assert.match(text, /# Top Rated Models \(AllTime\)/);
+    assert.equal(mock.requests[0].params.get('sort'), 'Highest Rated');
+  });
+
+  it('search_models_by_tag', async () => {
+    const text = await harness.callToolText('search_models_by_tag', { tag: 'concept' });
+
+    assert.match(text, /# Models tagged "concept"/);
+    assert.match(text, /Detail Tweaker LoRA/);
+    assert.doesNotMatch(text, /Realistic Vision/);
+  });
+
+  it('search_models_by_creator', async () => {
+    const text = await harness.callToolText('search_models_by_creator', { username: 'SG_161222' });
+
+    assert.match(text, /# Models by SG_161222/);
+    assert.match(text, /Realistic Vision V6.0/);
+    assert.doesNotMatch(text, /Detail Tweaker/);
+  });
+
+  it('get_models_by_type', async () => {
+    const text = await harness.callToolText('get_models_by_type', { type: 'LORA' });
+
+    assert.match(text, /# LORA Models/);
+    assert.match(text, /Detail Tweaker LoRA/);
+    assert.deepEqual(mock.requests[0].params.getAll('types'), ['LORA']);
+  });
+
+  it('get_download_url', async () => {
+    const text = await harness.callToolText('get_download_url', { modelVersionId: 130072 });
+
+    assert.ok(text.includes(`${mock.baseUrl}/download/models/130072`));
+  });
+
+  it('get_download_url keeps the API key out of links unless the server allows tokenized ones', async () => {
+    const keyed = await connectHarness(mock.baseUrl, { apiKey: 'download-secret' });
+    const permissive = await connectHarness(mock.baseUrl, {
+      apiKey: 'download-secret',
+      serverOptions: { allowTokenizedDownloadUrls: true },
+    });
+    try {
+      const plain = JSON.parse(await keyed.callToolText('get_download_url', { modelVersionId: 130072, output: 'json' }));
+      assert.equal(plain.downloadUrl, `${mock.baseUrl}/download/models/130072`);
+      assert.equal(plain.tokenized, false);
+
+      const refused = await keyed.callTool('get_download_url', { modelVersionId: 130072, tokenized: true });
+      assert.equal(refused.isError, true);
+      assert.equal(JSON.parse(refused.content[1].text).error.code, 'INVALID_ARGUMENTS');
+
+      const text = await permissive.callToolText('get_download_url', { modelVersionId: 130072, tokenized: true });
+      assert.ok(text.includes(`${mock.baseUrl}/download/models/130072?token=download-secret`));
+      assert.match(text, /contains an API key/);
+    } finally {
+      await keyed.close();
+      await permissive.close();
+    }
+  });
+
+  it('check_model_updates reports newer versions and trained word changes', async () => {
+    const model = loadFixture('model-4201.json');
+    model.modelVersions[0].trainedWords = ['RAW photo'];
+    model.modelVersions[1].trainedWords = ['analog style'];
+    mock.override('/api/v1/models/4201', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(model));
+    });
+
+    const report = JSON.parse(await harness.callToolText('check_model_updates', {
+      hashes: ['EF76AA2332', 'FFFFFFFFFF'],
+      modelVersionIds: [130072],
+      output: 'json',
+    }));
+
+    assert.equal(report.updatesAvailable, 1);
+    const [outdated, unknown, current] = report.checks;
+    assert.equal(outdated.status, 'update-available');
+    assert.equal(outdated.current.name, 'V5.1');
+    assert.deepEqual(
+      { id: outdated.latest.id, name: outdated.latest.name, baseModel: outdated.latest.baseModel },
+      { id: 130072, name: 'V6.0 (B1)', baseModel: 'SD 1.5' }
+    );
+    assert.deepEqual(outdated.trainedWords, { added: ['RAW photo'], removed: ['analog style'] });
+    assert.equal(unknown.status, 'not-found');
+    assert.equal(current.status, 'up-to-date');
+    // Both inputs belong to model 4201, which is fetched once
+    assert.equal(mock.requests.filter(r => r.path === '/api/v1/models/4201').length, 1);
+
+    const text = await harness.callToolText('check_model_updates', { hashes: ['EF76AA2332'] });
+    assert.match(text, /Latest: V6\.0 \(B1\) \(SD 1\.5, 2024-01-12\)/);
+    assert.match(text, /Trained words added: RAW photo/);
+  });
+
+  it('check_model_updates requires a hash or version id', async () => {
+    const result = await harness.callTool('check_model_updates', {});
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'INVALID_ARGUMENTS');
+  });
+
+  it('get_image_generation_params resolves the resources of an image', async () => {
+    const report = JSON.parse(await harness.callToolText('get_image_generation_params', {
+      imageId: 3905215,
+      output: 'json',
+    }));
+
+    assert.equal(report.params.steps, 30);
+    assert.equal(report.params.width, 832);
+    assert.deepEqual(report.params.extra, { 'Hires upscale': '1.5' });
+    const [checkpoint, lora] = report.params.resources;
+    assert.deepEqual(
+      [checkpoint.type, checkpoint.civitai.modelId, checkpoint.civitai.modelVersionId],
+      ['checkpoint', 4201, 130072]
+    );
+    assert.deepEqual(
+      [lora.type, lora.name, lora.weight, lora.civitai.modelId, lora.civitai.modelVersionId],
+      ['lora', 'add_detail', 0.6, 7240, 62833]
+    );
+    assert.match(report.infotext, /Lora hashes: "add_detail: bd969cf2cb"/);
+    assert.equal(report.comfyui['2'].class_type, 'LoraLoader');
+    assert.equal(mock.requests.find(r => r.path === '/api/v1/images').params.get('imageId'), '3905215');
+
+    const text = await harness.callToolText('get_image_generation_params', { imageId: 3905215 });
+    assert.match(text, /- lora: add_detail, weight 0\.6, hash bd969cf2cb -> Detail Tweaker LoRA/);
+    assert.match(text, /```json\n\{\n  "1": \{\n    "class_type": "CheckpointLoaderSimple"/);
+  });
+
+  it('get_image_generation_params parses pasted infotext', async () => {
+    const report = JSON.parse(await harness.callToolText('get_image_generation_params', {
+      infotext: 'a cat\nNegative prompt: blurry\nSteps: 20, Sampler: Euler a, CFG scale: 7, Seed: 42, Size: 512x768',
+      resolveResources: false,
+      output: 'json',
+    }));
+
+    assert.equal(report.params.prompt, 'a cat');
+    assert.equal(report.params.negativePrompt, 'blurry');
+    assert.equal(report.params.height, 768);
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('get_image_generation_params requires exactly one source', async () => {
+    for (const args of [{}, { imageId: 3905215, infotext: 'a cat' }]) {
+      const result = await harness.callTool('get_image_generation_params', args);
+
+      assert.equal(result.isError, true);
+      assert.equal(JSON.parse(result.content[1].text).error.code, 'INVALID_ARGUMENTS');
+    }
+  });
+
+  it('suggest_prompts ranks sample prompts and summarizes their settings', async () => {
+    const suggestions = JSON.parse(await harness.callToolText('suggest_prompts', { modelVersionId: 62833, output: 'json' }));
+
+    const request = mock.requests.find(r => r.path === '/api/v1/images');
+    assert.equal(request.params.get('modelVersionId'), '62833');
+    assert.equal(request.params.get('sort'), 'Most Reactions');
+    assert.equal(suggestions.imagesAnalyzed, 2);
+    const [first, second] = suggestions.templates;
+    assert.deepEqual([first.source.imageId, first.source.reactions, first.weight], [3905215, 299, 0.6]);
+    assert.match(first.prompt, /^detailed, RAW photo/);
+    assert.deepEqual(first.addedTriggerWords, ['detailed']);
+    assert.deepEqual([second.source.imageId, second.addedTriggerWords, second.weight], [3905444, [], 1]);
+    assert.deepEqual(suggestions.settings.steps, { min: 25, max: 30, median: 27.5 });
+    assert.deepEqual(suggestions.settings.weight, { min: 0.6, max: 1, median: 0.8 });
+    assert.deepEqual(suggestions.settings.samplers.map(s => s.value), ['DPM++ 2M Karras', 'Euler a']);
+
+    const text = await harness.callToolText('suggest_prompts', { modelVersionId: 62833, templates: 1 });
+    assert.match(text, /- Weight: 0\.6-1 \(median 0\.8\)/);
+    assert.match(text, /### 1\. 299 reactions \(image 3905215\)/);
+    assert.doesNotMatch(text, /### 2\./);
+  });
+
+  it('compare_models lines up models and versions side by side', async () => {
+    const comparison = JSON.parse(await harness.callToolText('compare_models', {
+      modelIds: [4201],
+      modelVersionIds: [62833],
+      output: 'json',
+    }));
+
+    const [checkpoint, lora] = comparison.models;
+    assert.deepEqual(
+      [checkpoint.input, checkpoint.versionId, checkpoint.favorites, checkpoint.files[0].fp],
+      ['model 4201', 130072, 48211, 'fp16']
+    );
+    assert.deepEqual([lora.input, lora.modelName, lora.trainedWords], ['version 62833', 'Detail Tweaker LoRA', ['detailed']]);
+    assert.deepEqual(lora.permissions.allowCommercialUse, ['Image', 'RentCivit', 'Rent', 'Sell']);
+    assert.deepEqual(comparison.baseModels, ['SD 1.5']);
+    assert.deepEqual(comparison.conflicts, []);
+
+    const text = await harness.callToolText('compare_models', { modelIds: [4201, 7240] });
+    assert.match(text, /\| \| Realistic Vision V6\.0 \| Detail Tweaker LoRA \|/);
+    assert.match(text, /\| \*\*Commercial use\*\* \| Image, RentCivit \| Image, RentCivit, Rent, Sell \|/);
+    assert.match(text, /All compared models share a compatible base model/);
+  });
+
+  it('compare_models flags incompatible base models', async () => {
+    const model = loadFixture('model-7240.json');
+    model.modelVersions[0].baseModel = 'SDXL 1.0';
+    mock.override('/api/v1/models/7240', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(model));
+    });
+
+    const comparison = JSON.parse(await harness.callToolText('compare_models', { modelIds: [4201, 7240], output: 'json' }));
+
+    assert.deepEqual(comparison.conflicts, [
+      { inputs: ['model 4201', 'model 7240'], baseModels: ['SD 1.5', 'SDXL 1.0'], compatibility: 'incompatible' },
+    ]);
+  });
+
+  it('compare_models compares what it can fetch and lists the rest', async () => {
+    const model = { ...loadFixture('model-7240.json'), nsfw: true };
+    mock.override('/api/v1/models/7240', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(model));
+    });
+    const args = { modelIds: [4201, 7240, 999] };
+
+    const comparison = JSON.parse(await harness.callToolText('compare_models', { ...args, output: 'json' }));
+    assert.deepEqual(comparison.models.map(m => m.input), ['model 4201']);
+    assert.deepEqual(comparison.unavailable.map(entry => [entry.input, entry.status]), [
+      ['model 7240', 'withheld'],
+      ['model 999', 'not-found'],
+    ]);
+
+    const text = await harness.callToolText('compare_models', args);
+    assert.match(text, /## Not Compared\n\n- model 7240: Model 7240 is withheld by the content policy/);
+    assert.match(text, /- model 999: not found on Civitai/);
+  });
+
+  it('compare_models needs 2 to 10 models', async () => {
+    const result = await harness.callTool('compare_models', { modelIds: [4201] });
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'INVALID_ARGUMENTS');
+  });
+
+  it('check_stack_compatibility accepts a matching stack and collects trigger words', async () => {
+    const report = JSON.parse(await harness.callToolText('check_stack_compatibility', {
+      checkpoint: { modelVersionId: 130072 },
+      resources: [{ hash: 'BD969CF2CB' }, { modelVersionId: 99 }],
+      output: 'json',
+    }));
+
+    assert.equal(report.compatible, true);
+    assert.equal(report.checkpoint.baseModel, 'SD 1.5');
+    const [lora, missing] = report.resources;
+    assert.deepEqual([lora.modelName, lora.compatibility, lora.alternatives], ['Detail Tweaker LoRA', 'compatible', undefined]);
+    assert.equal(missing.status, 'not-found');
+    assert.deepEqual(report.triggerWords, ['detailed']);
+    assert.deepEqual(report.warnings, []);
+  });
+
+  it('check_stack_compatibility flags base model mismatches and suggests alternatives', async () => {
+    const json = body => (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    const checkpoint = loadFixture('model-version-130072.json');
+    checkpoint.baseModel = 'SDXL 1.0';
+    const lora = loadFixture('model-7240.json');
+    const xlVersion = { ...lora.modelVersions[0], id: 62999, name: 'XL', baseModel: 'SDXL 1.0' };
+    const xlModel = { ...lora, id: 9001, name: 'Detail Slider XL', modelVersions: [{ ...xlVersion, id: 90011 }] };
+    mock.override('/api/v1/model-versions/130072', json(checkpoint));
+    mock.override('/api/v1/models/7240', json({ ...lora, modelVersions: [xlVersion, ...lora.modelVersions] }));
+    mock.override('/api/v1/models', json({ items: [lora, xlModel], metadata: {} }));
+
+    const report = JSON.parse(await harness.callToolText('check_stack_compatibility', {
+      checkpoint: { modelVersionId: 130072 },
+      resources: [{ modelVersionId: 62833 }],
+      output: 'json',
+    }));
+
+    assert.equal(report.compatible, false);
+    assert.equal(report.resources[0].compatibility, 'incompatible');
+    assert.deepEqual(report.resources[0].alternatives.map(a => [a.modelName, a.versionId, a.sameModel]), [
+      ['Detail Tweaker LoRA', 62999, true],
+      ['Detail Slider XL', 90011, false],
+    ]);
+    assert.match(report.warnings[0], /is for SD 1\.5 and won't load on SDXL 1\.0/);
+    const search = mock.requests.find(r => r.path === '/api/v1/models').params;
+    assert.deepEqual(
+      [search.getAll('baseModels'), search.getAll('types'), search.get('tag'), search.get('sort')],
+      [['SDXL 1.0'], ['LORA'], 'concept', 'Highest Rated']
+    );
+
+    const text = await harness.callToolText('check_stack_compatibility', {
+      checkpoint: { modelVersionId: 130072 },
+      resources: [{ modelVersionId: 62833 }],
+    });
+    assert.match(text, /# Stack Compatibility: Mismatched/);
+    assert.match(text, /  - Same model: Detail Tweaker LoRA - XL \(SDXL 1\.0, version ID 62999\)/);
+  });
+
+  it('check_stack_compatibility needs each resource identified once', async () => {
+    const result = await harness.callTool('check_stack_compatibility', {
+      checkpoint: { modelVersionId: 130072, modelId: 4201 },
+      resources: [{ hash: 'BD969CF2CB' }],
+    });
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'INVALID_ARGUMENTS');
+  });
+
+  it('search_models filters on license permissions', async () => {
+    const text = await harness.callToolText('search_models', { allowCommercialUse: 'Sell', allowDerivatives: true });
+
+    assert.match(text, /Found 1 models/);
+    assert.match(text, /Detail Tweaker LoRA/);
+    assert.equal(mock.requests[0].params.get('allowCommercialUse'), 'Sell');
+    assert.equal(mock.requests[0].params.get('allowDerivatives'), 'true');
+  });
+
+  it('license_report summarizes commercial use per model', async () => {
+    const report = JSON.parse(await harness.callToolText('license_report', {
+      modelIds: [4201],
+      modelVersionIds: [99],
+      hashes: ['BD969CF2CB'],
+      output: 'json',
+    }));
+
+    const [checkpoint, missing, lora] = report.entries;
+    assert.deepEqual(checkpoint.permissions, {
+      sellImages: 'allowed',
+      generationServices: 'civitai-only',
+      sellModel: 'not-allowed',
+      shareMerges: 'allowed',
+      differentLicense: 'allowed',
+      noCredit: 'allowed',
+    });
+    assert.equal(checkpoint.url, `${new URL(mock.baseUrl).origin}/models/4201`);
+    assert.equal(missing.status, 'not-found');
+    assert.deepEqual([lora.modelId, lora.versionId, lora.permissions.sellModel], [7240, 62833, 'allowed']);
+    assert.deepEqual(report.summary.sellModel, { allowed: 1, total: 2 });
+
+    const text = await harness.callToolText('license_report', { modelIds: [4201, 7240] });
+    assert.match(text, /\| Realistic Vision V6\.0 \(Checkpoint\) \[model 4201\] \| Yes \| Civitai only \| No \| Yes \| Yes \| Yes \|/);
+    assert.match(text, /\*\*Allowed by all 2:\*\* Sell images, Share merges, Different license, No credit/);
+  });
+
+  it('check_model_safety explains why files pass or fail', async () => {
+    const version = loadFixture('model-version-130072.json');
+    version.files[0].pickleScanResult = 'Pending';
+    mock.override('/api/v1/model-versions/130072', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(version));
+    });
+
+    const report = JSON.parse(await harness.callToolText('check_model_safety', { modelVersionId: 130072, output: 'json' }));
+    assert.equal(report.passed, false);
+    assert.deepEqual(report.files[0].reasons, ['scans incomplete or failed (pickle Pending, virus Success)']);
+
+    const text = await harness.callToolText('check_model_safety', { hash: 'BD969CF2CB' });
+    assert.match(text, /# Safety Check: Detail Tweaker LoRA - v1\.0/);
+    assert.match(text, /\*\*Result:\*\* Passed/);
+    assert.match(text, /- Pass \(scans\): pickle and virus scans succeeded/);
+  });
+
+  it('get_download_url refuses a version whose file list was repaired by lenient parsing', async () => {
+    const version = loadFixture('model-version-130072.json');
+    version.files[0].sizeKb = '2 GB';
+    version.files.push({ ...loadFixture('model-version-130072.json').files[0], id: 95214, primary: false });
+    mock.override('/api/v1/model-versions/130072', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(version));
+    });
+
+    const result = await harness.callTool('get_download_url', { modelVersionId: 130072 });
+    assert.equal(result.isError, true);
+    const { error } = JSON.parse(result.content[1].text);
+    assert.equal(error.code, 'SAFETY_POLICY');
+    assert.deepEqual(error.reasons, ['the file list did not match the expected schema and was repaired']);
+
+    const normalized = JSON.parse(await harness.callToolText('get_model_version', { modelVersionId: 130072, output: 'json' }));
+    assert.equal(normalized.downloadUrl, undefined);
+  });
+
+  it('get_download_url and get_model_version withhold files that fail the safety policy', async () => {
+    const version = loadFixture('model-version-130072.json');
+    version.files[0].virusScanResult = 'Danger';
+    mock.override('/api/v1/model-versions/130072', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(version));
+    });
+
+    const result = await harness.callTool('get_download_url', { modelVersionId: 130072 });
+    assert.equal(result.isError, true);
+    const { error } = JSON.parse(result.content[1].text);
+    assert.equal(error.code, 'SAFETY_POLICY');
+    assert.equal(error.modelVersionId, 130072);
+
+    const normalized = JSON.parse(await harness.callToolText('get_model_version', { modelVersionId: 130072, output: 'json' }));
+    assert.equal(normalized.downloadUrl, undefined);
+    assert.equal(normalized.files[0].safety.passed, false);
+  });
+
+  it('reports API failures as tool errors', async () => {
+    const result = await harness.callTool('get_model', { modelId: 999 });
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'NOT_FOUND');
+  });
+});
+
+describe('CivitaiMCPServer JSON output', () => {
+  let mock;
+  let harness;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    harness = await connectHarness(mock.baseUrl);
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  const callJson = async (name, args) => JSON.parse(await harness.callToolText(name, { ...args, output: 'json' }));
+
+  it('returns normalized models with pagination', async () => {
+    const result = await callJson('search_models', { limit: 1 });
+
+    assert.equal(result.models[0].name, 'Realistic Vision V6.0');
+    assert.equal(result.models[0].latestVersion.id, 130072);
+    assert.equal(result.pagination.hasNextPage, true);
+    assert.equal(typeof result.pagination.nextCursor, 'string');
+  });
+
+  it('returns normalized single resources', async () => {
+    const model = await callJson('get_model', { modelId: 7240 });
+    assert.deepEqual(model.versions[0].trainedWords, ['detailed']);
+
+    const version = await callJson('get_model_version_by_hash', { hash: 'BD969CF2CB' });
+    assert.equal(version.modelId, 7240);
+    assert.equal(version.files[0].scanStatus.pickle, 'Success');
+    assert.equal(version.files[0].name, 'add_detail.safetensors');
+    assert.equal(version.files[0].hashes.AutoV2, 'BD969CF2CB');
+    assert.equal(model.permissions.allowDerivatives, true);
+  });
+
+  it('returns images with their generation metadata intact', async () => {
+    const result = await callJson('browse_images', { limit: 1 });
+
+    assert.equal(result.images[0].meta.sampler, 'DPM++ 2M Karras');
+    assert.equal(result.images.length, 1);
+  });
+});
+
+describe('CivitaiMCPServer local model library', () => {
+  let mock;
+  let harness;
+  let modelsDir;
+
+  before(async () => {
+    modelsDir = await mkdtemp(join(tmpdir(), 'civitai-models-'));
+    await mkdir(join(modelsDir, 'Lora'));
+    await writeFile(join(modelsDir, 'Lora', 'add_detail.safetensors'), DOWNLOAD_BODY);
+    await writeFile(join(modelsDir, 'mystery.ckpt'), 'no one knows');
+
+    mock = await startMockCivitai();
+    harness = await connectHarness(mock.baseUrl, { apiKey: 'test-key', serverOptions: { modelsDir, imagesDir: modelsDir } });
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+    await rm(modelsDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => mock.reset());
+
+  it('scan_local_models identifies known files and lists unknown ones', async () => {
+    const report = JSON.parse(await harness.callToolText('scan_local_models', { output: 'json' }));
+
+    assert.equal(report.identified, 1);
+    assert.equal(report.unknown, 1);
+    const [lora, mystery] = report.files;
+    assert.equal(lora.path, join('Lora', 'add_detail.safetensors'));
+    assert.deepEqual(lora.match, {
+      modelId: 7240,
+      modelName: 'Detail Tweaker LoRA',
+      versionId: 62833,
+      versionName: 'v1.0',
+      type: 'LORA',
+      baseModel: 'SD 1.5',
+      trainedWords: ['detailed'],
+    });
+    assert.equal(mystery.status, 'unknown');
+    assert.ok(JSON.parse(await readFile(join(modelsDir, '.civitai-hashes.json'), 'utf8')));
+  });
+
+  it('scan_local_models renders a markdown report', async () => {
+    const text = await harness.callToolText('scan_local_models', { path: 'Lora' });
+
+    assert.match(text, /\*\*Files:\*\* 1 \(1 identified, 0 unknown, 0 errors\)/);
+    assert.match(text, /\*\*Detail Tweaker LoRA\*\* - v1\.0 \(LORA, SD 1\.5\)/);
+    assert.match(text, /Trained words: detailed/);
+  });
+
+  it('scan_local_models rejects paths outside the models directory', async () => {
+    const result = await harness.callTool('scan_local_models', { path: '..' });
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'INVALID_ARGUMENTS');
+  });
+
+  it('download_model_version resumes into the type folder and verifies the hash', async () => {
+    await mkdir(join(modelsDir, 'LORA'), { recursive: true });
+    await writeFile(join(modelsDir, 'LORA', '.62833-49071.part'), DOWNLOAD_BODY.subarray(0, 10));
+    const progress = [];
+
+    const result = await harness.callTool(
+      'download_model_version',
+      { modelVersionId: 62833, output: 'json' },
+      { onprogress: update => progress.push(update) }
+    );
+    const download = JSON.parse(result.content[0].text);
+
+    assert.equal(download.path, join(modelsDir, 'LORA', 'model-62833.safetensors'));
+    assert.equal(download.resumedFrom, 10);
+    assert.equal(download.verified, true);
+    assert.deepEqual(await readFile(download.path), DOWNLOAD_BODY);
+    assert.deepEqual(progress.at(-1), { progress: DOWNLOAD_BODY.length, total: DOWNLOAD_BODY.length });
+
+    const fetched = mock.requests.find(r => r.path === '/storage/model-62833.safetensors');
+    assert.equal(fetched.headers.range, 'bytes=10-');
+    const requested = mock.requests.find(r => r.path === '/api/v1/download/models/62833');
+    assert.equal(requested.headers.authorization, 'Bearer test-key');
+    assert.ok(!requested.params.has('token'));
+  });
+
+  it('download_model_version skips files already in the library', async () => {
+    await writeFile(join(modelsDir, 'LORA', 'add_detail.safetensors'), DOWNLOAD_BODY);
+
+    const text = await harness.callToolText('download_model_version', { modelVersionId: 62833 });
+
+    assert.match(text, /# Already Downloaded/);
+    assert.ok(!mock.requests.some(r => r.path.startsWith('/storage/')));
+  });
+
+  it('download_model_version deletes files that fail verification', async () => {
+    const result = await harness.callTool('download_model_version', { modelVersionId: 130072 });
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[1].text).error.code, 'HASH_MISMATCH');
+    await assert.rejects(readFile(join(modelsDir, 'Checkpoint', 'model-130072.safetensors')), { code: 'ENOENT' });
+  });
+
+  it('download_model_version refuses files that fail the safety policy', async () => {
+    const strict = await connectHarness(mock.baseUrl, {
+      serverOptions: { modelsDir, safetyPolicy: { requireSafeTensors: true, blockPickle: true, requireScans: true, maxScanAgeDays: 30 } },
+    });
+
+    try {
+      const result = await strict.callTool('download_model_version', { modelVersionId: 62833 });
+      assert.equal(result.isError, true);
+      const { error } = JSON.parse(result.content[1].text);
+      assert.equal(error.code, 'SAFETY_POLICY');
+      assert.match(error.reasons[0], /^scanned \d+ day\(s\) ago; the policy allows 30$/);
+      assert.ok(!mock.requests.some(r => r.path.startsWith('/api/v1/download/')));
+    } finally {
+      await strict.close();
+    }
+  });
+
+  it('inspect_local_image traces the LoRAs of a local PNG', async () => {
+    const parameters = 'a lighthouse, <lora:add_detail:0.7>\nSteps: 28, Sampler: Euler a, Seed: 99, ' +
+      'Model hash: 15012c538f, Lora hashes: "add_detail: bd969cf2cb"';
+    const chunk = Buffer.from(`\0\0\0\0tEXtparameters\0${parameters}\0\0\0\0`, 'latin1');
+    chunk.writeUInt32BE(chunk.length - 12);
+    const image = join(modelsDir, 'lighthouse.png');
+    await writeFile(image, Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), chunk]));
+
+    const report = JSON.parse(await harness.callToolText('inspect_local_image', { path: image, output: 'json' }));
+
+    assert.equal(report.format, 'png');
+    assert.equal(report.source, 'a1111');
+    assert.equal(report.meta.steps, '28');
+    assert.deepEqual(report.params.resources.map(r => [r.type, r.civitai?.modelId]), [['checkpoint', 4201], ['lora', 7240]]);
+
+    const text = await harness.callToolText('inspect_local_image', { path: image });
+    assert.match(text, /# Image Metadata: lighthouse\.png/);
+    assert.match(text, /- lora: add_detail, weight 0\.7, hash bd969cf2cb -> Detail Tweaker LoRA/);
+  });
+
+  it('inspect_local_image only reads from the images directory', async () => {
+    const outside = await harness.callTool('inspect_local_image', { path: '../lighthouse.png' });
+    assert.equal(outside.isError, true);
+    assert.match(outside.content[0].text, /inside the images directory/);
+
+    const unconfigured = await connectHarness(mock.baseUrl);
+    try {
+      const result = await unconfigured.callTool('inspect_local_image', { path: join(modelsDir, 'lighthouse.png') });
+      assert.equal(result.isError, true);
+      assert.match(result.content[0].text, /No images directory configured/);
+    } finally {
+      await unconfigured.close();
+    }
+  });
+
+  it('inspect_local_image reports missing files and metadata', async () => {
+    const image = join(modelsDir, 'blank.png');
+    await writeFile(image, Buffer.from('89504e470d0a1a0a', 'hex'));
+
+    for (const path of [join(modelsDir, 'missing.png'), image]) {
+      const result = await harness.callTool('inspect_local_image', { path });
+      assert.equal(result.isError, true);
+      assert.equal(JSON.parse(result.content[1].text).error.code, 'NOT_FOUND');
+    }
+  });
+});
+
+describe('CivitaiMCPServer configuration', () => {
+  let mock;
+  let harness;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    harness = await connectHarness(mock.baseUrl, {
+      serverOptions: {
+        tools: { enabled: ['search_models', 'get_model', 'get_tags'], disabled: ['get_tags'] },
+        formatting: { descriptionLength: 10, maxTags: 1 },
+        defaultLimit: 3,
+      },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  beforeEach(() => mock.reset());
+
+  it('serves only the selected tools', async () => {
+    const { tools } = await harness.client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name), ['search_models', 'get_model']);
+
+    await assert.rejects(harness.callTool('get_tags'), /Unknown tool: get_tags/);
+  });
+
+  it('rejects unknown tool names', async () => {
+    await assert.rejects(
+      connectHarness(mock.baseUrl, { serverOptions: { tools: { disabled: ['get_everything'] } } }),
+      { code: 'INVALID_CONFIG', message: 'Unknown tools: get_everything' }
+    );
+  });
+
+  it('trims summaries and pages by the configured defaults', async () => {
+    const { models } = JSON.parse(await harness.callToolText('search_models', { output: 'json' }));
+
+    assert.equal(mock.requests[0].params.get('limit'), '3');
+    for (const model of models) {
+      assert.ok(model.description.length <= 13, model.description);
+      assert.ok(model.tags.length <= 1);
+    }
+
+    await harness.callToolText('search_models', { limit: 7 });
+    assert.equal(mock.requests[1].params.get('limit'), '7');
+  });
+});
@@ -0,0 +1,37 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CivitaiClient } from '../../dist/civitai-client.js';
+import { CivitaiMCPServer } from '../../dist/server.js';
+
+/**
+ * Connects a CivitaiMCPServer to an MCP client over an in-process transport.
+ * The server talks to whatever API lives at `baseUrl` (normally the mock); `serverOptions`
+ * (e.g. `modelsDir`) go to the server and any other CivitaiClient options (e.g. `cache`)
+ * are passed through.
+ */
+export async function connectHarness(baseUrl, { apiKey, serverOptions = {}, ...clientOptions } = {}) {
+  const server = new CivitaiMCPServer(new CivitaiClient(apiKey, { baseUrl, ...clientOptions }), serverOptions);
+  const client = new Client({ name: 'civitai-mcp-test', version: '1.0.0' }, { capabilities: {} });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return {
+    client,
+    server,
+    /** `options` are MCP request options, e.g. `{ onprogress }` */
+    async callTool(name, args = {}, options) {
+      return client.callTool({ name, arguments: args }, undefined, options);
+    },
+    /** Calls a tool and returns the concatenated text content */
+    async callToolText(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      return result.content.map(part => part.text).join('\n');
+    },
+    async close() {
+      await client.close();
+      await server.close();
+    },
+  };
+}
@@ -0,0 +1,216 @@
+import http from 'node:http';
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+
+export function loadFixture(name) {
+  return JSON.parse(readFileSync(join(FIXTURES_DIR, name), 'utf8'));
+}
+
+/** Bytes served by the download route; small enough to hash in tests */
+export const DOWNLOAD_BODY = Buffer.from('civitai-mcp-server fixture model weights\n');
+
+function loadModels() {
+  return readdirSync(FIXTURES_DIR)
+    .filter(file => /^model-\d+\.json$/.test(file))
+    .map(file => loadFixture(file));
+}
+
+// Shape a model's version the way /model-versions/:id returns it
+function toVersionResponse(model, version) {
+  return {
+    ...version,
+    modelId: model.id,
+    model: { name: model.name, type: model.type, nsfw: model.nsfw, poi: model.poi, mode: null },
+  };
+}
+
+function findVersion(models, predicate) {
+  for (const model of models) {
+    for (const version of model.modelVersions) {
+      if (predicate(version)) return toVersionResponse(model, version);
+    }
+  }
+  return undefined;
+}
+
+function filterModels(models, params) {
+  const query = params.get('query')?.toLowerCase();
+  const tag = params.get('tag')?.toLowerCase();
+  const username = params.get('username');
+  const types = params.getAll('types');
+  const baseModels = params.getAll('baseModels');
+  const commercialUse = params.get('allowCommercialUse');
+  const derivatives = params.get('allowDerivatives');
+
+  return models.filter(model =>
+    (!query || model.name.toLowerCase().includes(query)) &&
+    (!tag || model.tags.includes(tag)) &&
+    (!username || model.creator.username === username) &&
+    (types.length === 0 || types.includes(model.type)) &&
+    (baseModels.length === 0 || model.modelVersions.some(version => baseModels.includes(version.baseModel))) &&
+    (!commercialUse || [].concat(model.allowCommercialUse ?? []).includes(commercialUse)) &&
+    (!derivatives || String(model.allowDerivatives) === derivatives)
+  );
+}
+
+function paginate(items, params, path) {
+  const limit = Number(params.get('limit') || 20);
+  const page = Number(params.get('page') || 1);
+  const start = (page - 1) * limit;
+  const totalPages = Math.max(1, Math.ceil(items.length / limit));
+
+  const next = new URLSearchParams(params);
+  next.set('page', String(page + 1));
+  return {
+    items: items.slice(start, start + limit),
+    metadata: {
+      totalItems: items.length,
+      currentPage: page,
+      pageSize: limit,
+      totalPages,
+      ...(page < totalPages && { nextPage: `https://civitai.com/api/v1${path}?${next}` }),
+    },
+  };
+}
+
+// Cursor paging like /images: the cursor is the id of the first item on the page
+function paginateByCursor(items, params, path) {
+  const limit = Number(params.get('limit') || 100);
+  const cursor = params.get('cursor');
+  const start = cursor ? Math.max(0, items.findIndex(item => String(item.id) === cursor)) : 0;
+  const nextItem = items[start + limit];
+
+  const next = new URLSearchParams(params);
+  if (nextItem) next.set('cursor', String(nextItem.id));
+  return {
+    items: items.slice(start, start + limit),
+    metadata: {
+      pageSize: limit,
+      ...(nextItem && {
+        nextCursor: String(nextItem.id),
+        nextPage: `https://civitai.com/api/v1${path}?${next}`,
+      }),
+    },
+  };
+}
+
+/**
+ * Local stand-in for the Civitai REST API that serves the recorded fixtures.
+ * Every request is kept in `requests` so tests can assert on what the client sent,
+ * and `override(path, handler)` replaces a route for error-path tests.
+ */
+export async function startMockCivitai() {
+  const models = loadModels();
+  const requests = [];
+  const overrides = new Map();
+
+  const routes = [
+    [/^\/api\/v1\/models$/, (_match, params) => [200, paginate(filterModels(models, params), params, '/models')]],
+    [/^\/api\/v1\/models\/(\d+)$/, ([, id]) => {
+      const model = models.find(m => m.id === Number(id));
+      return model ? [200, model] : [404, { error: `No model with id ${id}` }];
+    }],
+    [/^\/api\/v1\/model-versions\/by-hash\/([0-9a-fA-F]+)$/, ([, hash]) => {
+      const version = findVersion(models, v =>
+        v.files.some(f => Object.values(f.hashes || {}).some(h => h.toLowerCase() === hash.toLowerCase()))
+      );
+      return version ? [200, version] : [404, { error: `Model not found` }];
+    }],
+    [/^\/api\/v1\/model-versions\/(\d+)$/, ([, id]) => {
+      try {
+        return [200, loadFixture(`model-version-${id}.json`)];
+      } catch {
+        const version = findVersion(models, v => v.id === Number(id));
+        return version ? [200, version] : [404, { error: `Model version not found` }];
+      }
+    }],
+    [/^\/api\/v1\/images$/, (_match, params) => {
+      const imageId = params.get('imageId');
+      const modelVersionId = Number(params.get('modelVersionId'));
+      const images = loadFixture('images.json').items
+        .filter(image => !imageId || String(image.id) === imageId)
+        .filter(image => !modelVersionId || image.modelVersionIds?.includes(modelVersionId));
+      return [200, paginateByCursor(images, params, '/images')];
+    }],
+    [/^\/api\/v1\/creators$/, () => [200, loadFixture('creators.json')]],
+    [/^\/api\/v1\/tags$/, () => [200, loadFixture('tags.json')]],
+  ];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    requests.push({ method: req.method, path: url.pathname, params: url.searchParams, headers: req.headers });
+
+    const override = overrides.get(url.pathname);
+    if (override) {
+      override(req, res);
+      return;
+    }
+
+    // Like Civitai, downloads redirect to a storage host, which honors Range requests
+    const download = url.pathname.match(/^\/api\/v1\/download\/models\/(\d+)$/);
+    if (download) {
+      res.writeHead(307, { Location: `/storage/model-${download[1]}.safetensors` });
+      res.end();
+      return;
+    }
+
+    const stored = url.pathname.match(/^\/storage\/(model-\d+\.safetensors)$/);
+    if (stored) {
+      const headers = {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${stored[1]}"`,
+      };
+      const range = req.headers.range?.match(/^bytes=(\d+)-$/);
+      if (range && Number(range[1]) >= DOWNLOAD_BODY.length) {
+        res.writeHead(416, { 'Content-Range': `bytes */${DOWNLOAD_BODY.length}` });
+        res.end();
+      } else if (range) {
+        const start = Number(range[1]);
+        res.writeHead(206, {
+          ...headers,
+          'Content-Length': DOWNLOAD_BODY.length - start,
+          'Content-Range': `bytes ${start}-${DOWNLOAD_BODY.length - 1}/${DOWNLOAD_BODY.length}`,
+        });
+        res.end(DOWNLOAD_BODY.subarray(start));
+      } else {
+        res.writeHead(200, { ...headers, 'Content-Length': DOWNLOAD_BODY.length });
+        res.end(DOWNLOAD_BODY);
+      }
+      return;
+    }
+
+    for (const [pattern, handler] of routes) {
+      const match = url.pathname.match(pattern);
+      if (match) {
+        const [status, body] = handler(match, url.searchParams);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+        return;
+      }
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/api/v1`,
+    requests,
+    override(path, handler) {
+      overrides.set(path, handler);
+    },
+    reset() {
+      requests.length = 0;
+      overrides.clear();
+    },
+    close() {
+      return new Promise(resolve => server.close(resolve));
+    },
+  };
+}
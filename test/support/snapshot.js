@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SNAPSHOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', '__snapshots__');
+
+/**
+ * Compares `actual` with test/__snapshots__/<name>. Missing snapshots are written
+ * on local runs and fail under CI; set UPDATE_SNAPSHOTS=1 to rewrite them.
+ */
+export function assertSnapshot(name, actual) {
+  const file = join(SNAPSHOT_DIR, name);
+  const exists = existsSync(file);
+
+  if (process.env.UPDATE_SNAPSHOTS || (!exists && !process.env.CI)) {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, actual);
+    return;
+  }
+
+  if (!exists) {
+    assert.fail(`Missing snapshot ${name}; run the tests without CI (or with UPDATE_SNAPSHOTS=1) to record it`);
+  }
+  assert.equal(actual, readFileSync(file, 'utf8'), `snapshot ${name} changed`);
+}
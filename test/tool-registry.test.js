@@ -0,0 +1,74 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelType, SortOrder } from '../dist/types.js';
+import { startMockCivitai } from './support/mock-civitai.js';
+import { connectHarness } from './support/mcp-harness.js';
+
+describe('tool registry', () => {
+  let mock;
+  let harness;
+  let tools;
+
+  before(async () => {
+    mock = await startMockCivitai();
+    harness = await connectHarness(mock.baseUrl);
+    ({ tools } = await harness.client.listTools());
+  });
+
+  after(async () => {
+    await harness.close();
+    await mock.close();
+  });
+
+  beforeEach(() => mock.reset());
+
+  const schemaOf = name => tools.find(tool => tool.name === name).inputSchema;
+
+  it('generates JSON Schemas from the zod definitions', () => {
+    const search = schemaOf('search_models');
+
+    assert.equal(search.type, 'object');
+    assert.deepEqual(search.properties.types.items.enum, ModelType.options);
+    assert.deepEqual(search.properties.sort.enum, SortOrder.options);
+    assert.equal(search.properties.limit.type, 'integer');
+    assert.equal(search.properties.limit.maximum, 100);
+    assert.equal(search.properties.query.description, 'Search query to filter models by name');
+    assert.equal(search.required, undefined);
+
+    assert.deepEqual(schemaOf('get_models_by_type').required, ['type']);
+    assert.deepEqual(schemaOf('get_model').required, ['modelId']);
+  });
+
+  it('rejects arguments of the wrong type before calling the API', async () => {
+    const result = await harness.callTool('search_models', { limit: 'abc' });
+
+    assert.equal(result.isError, true);
+    const { error } = JSON.parse(result.content[1].text);
+    assert.equal(error.code, 'INVALID_ARGUMENTS');
+    assert.deepEqual(error.issues.map(issue => issue.path), ['limit']);
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('rejects values outside the shared enums and ranges', async () => {
+    for (const [name, args] of [
+      ['get_models_by_type', { type: 'Wallpaper' }],
+      ['browse_images', { limit: 500 }],
+      ['get_model', { modelId: -1 }],
+      ['get_model_version_by_hash', { hash: 'not a hash' }],
+    ]) {
+      const result = await harness.callTool(name, args);
+      assert.equal(result.isError, true, name);
+    }
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('passes validated arguments through to the client', async () => {
+    await harness.callTool('get_models_by_type', { type: 'LORA', sort: 'Newest', unknown: 1 });
+
+    const { params } = mock.requests[0];
+    assert.deepEqual(params.getAll('types'), ['LORA']);
+    assert.equal(params.get('sort'), 'Newest');
+    assert.equal(params.has('type'), false);
+    assert.equal(params.has('unknown'), false);
+  });
+});